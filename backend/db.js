@@ -10,6 +10,16 @@ const pool = new Pool({
     }
 });
 
+// Full-text search document for a note (see search.js), titles ranked above
+// content. The GIN index is built on this exact expression, so queries must
+// use it verbatim to hit the index.
+export const NOTE_SEARCH_VECTOR = `(setweight(to_tsvector('english', COALESCE(title, '')), 'A') ||
+  setweight(to_tsvector('english', COALESCE(content, '')), 'B'))`;
+
+// Titles compared the way [[links]] name them: trimmed, single-spaced and
+// lower-cased (linkKey in links.js). Indexed, so pass the column unchanged.
+export const noteTitleKey = (column = 'title') => `lower(btrim(regexp_replace(${column}, '\\s+', ' ', 'g')))`;
+
 export async function initDb() {
     const client = await pool.connect();
     try {
@@ -49,6 +59,154 @@ export async function initDb() {
         last_attempted TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
         UNIQUE(user_id, folder_id, concept_name)
       );
+
+      CREATE TABLE IF NOT EXISTS note_chunks (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        note_id UUID REFERENCES notes(id) ON DELETE CASCADE,
+        user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+        folder_id UUID REFERENCES folders(id) ON DELETE CASCADE,
+        chunk_index INTEGER NOT NULL,
+        start_offset INTEGER NOT NULL,
+        end_offset INTEGER NOT NULL,
+        text TEXT NOT NULL,
+        embedding REAL[],
+        embedding_model VARCHAR(100),
+        indexed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(note_id, chunk_index)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_note_chunks_folder ON note_chunks(user_id, folder_id);
+      ALTER TABLE note_chunks ADD COLUMN IF NOT EXISTS section TEXT;
+      ALTER TABLE note_chunks ADD COLUMN IF NOT EXISTS page INTEGER;
+
+      ALTER TABLE notes ADD COLUMN IF NOT EXISTS content_hash VARCHAR(64);
+      ALTER TABLE notes ADD COLUMN IF NOT EXISTS index_status VARCHAR(20) DEFAULT 'stale';
+      ALTER TABLE notes ADD COLUMN IF NOT EXISTS index_error TEXT;
+      ALTER TABLE notes ADD COLUMN IF NOT EXISTS indexed_at TIMESTAMP;
+
+      CREATE TABLE IF NOT EXISTS chat_threads (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+        folder_id UUID REFERENCES folders(id) ON DELETE CASCADE,
+        title VARCHAR(255) NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS chat_messages (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        thread_id UUID REFERENCES chat_threads(id) ON DELETE CASCADE,
+        role VARCHAR(10) NOT NULL,
+        content TEXT NOT NULL,
+        citations JSONB DEFAULT '[]',
+        confidence VARCHAR(20),
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_chat_messages_thread ON chat_messages(thread_id, created_at);
+
+      ALTER TABLE chat_messages ADD COLUMN IF NOT EXISTS confidence_score REAL;
+      ALTER TABLE chat_messages ADD COLUMN IF NOT EXISTS passages JSONB DEFAULT '[]';
+      ALTER TABLE chat_messages ADD COLUMN IF NOT EXISTS verification VARCHAR(20);
+
+      CREATE TABLE IF NOT EXISTS flashcards (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+        folder_id UUID REFERENCES folders(id) ON DELETE CASCADE,
+        front TEXT NOT NULL,
+        back TEXT NOT NULL,
+        concept VARCHAR(255),
+        ease_factor REAL DEFAULT 2.5,
+        interval_days INTEGER DEFAULT 0,
+        repetitions INTEGER DEFAULT 0,
+        lapses INTEGER DEFAULT 0,
+        due_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        last_reviewed_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(user_id, folder_id, front)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_flashcards_due ON flashcards(user_id, folder_id, due_at);
+
+      CREATE TABLE IF NOT EXISTS quiz_sessions (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+        folder_id UUID REFERENCES folders(id) ON DELETE CASCADE,
+        title VARCHAR(255) NOT NULL,
+        questions JSONB NOT NULL,
+        mcq_answers JSONB DEFAULT '{}',
+        saq_answers JSONB DEFAULT '{}',
+        saq_results JSONB DEFAULT '{}',
+        score REAL DEFAULT 0,
+        max_score REAL DEFAULT 0,
+        retake_of UUID REFERENCES quiz_sessions(id) ON DELETE SET NULL,
+        completed_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_quiz_sessions_folder ON quiz_sessions(user_id, folder_id, created_at);
+
+      CREATE TABLE IF NOT EXISTS viva_sessions (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+        folder_id UUID REFERENCES folders(id) ON DELETE CASCADE,
+        question_limit INTEGER NOT NULL DEFAULT 3,
+        strictness VARCHAR(20) NOT NULL DEFAULT 'standard',
+        status VARCHAR(20) NOT NULL DEFAULT 'active',
+        messages JSONB DEFAULT '[]',
+        report JSONB,
+        overall_score REAL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        completed_at TIMESTAMP
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_viva_sessions_folder ON viva_sessions(user_id, folder_id, created_at);
+
+      ALTER TABLE notes ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+
+      -- Subjects are top-level folders; topics nest below them
+      ALTER TABLE folders ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES folders(id) ON DELETE CASCADE;
+      ALTER TABLE folders ADD COLUMN IF NOT EXISTS position INTEGER NOT NULL DEFAULT 0;
+      CREATE INDEX IF NOT EXISTS idx_folders_parent ON folders(user_id, parent_id, position);
+
+      -- Trash: deleted_with is the note or folder the user deleted (see trash.js)
+      ALTER TABLE folders ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+      ALTER TABLE folders ADD COLUMN IF NOT EXISTS deleted_with UUID;
+      ALTER TABLE notes ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+      ALTER TABLE notes ADD COLUMN IF NOT EXISTS deleted_with UUID;
+
+      -- The uploaded file a note was imported from, kept by the storage adapter
+      ALTER TABLE notes ADD COLUMN IF NOT EXISTS source_key VARCHAR(100);
+      ALTER TABLE notes ADD COLUMN IF NOT EXISTS source_name VARCHAR(255);
+      ALTER TABLE notes ADD COLUMN IF NOT EXISTS source_type VARCHAR(255);
+      ALTER TABLE notes ADD COLUMN IF NOT EXISTS source_size INTEGER;
+
+      CREATE INDEX IF NOT EXISTS idx_notes_search ON notes USING GIN (${NOTE_SEARCH_VECTOR});
+
+      -- [[Title]] links between notes, by the normalised title they name (see links.js)
+      CREATE TABLE IF NOT EXISTS note_links (
+        note_id UUID REFERENCES notes(id) ON DELETE CASCADE,
+        user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+        target_key TEXT NOT NULL,
+        PRIMARY KEY (note_id, target_key)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_note_links_target ON note_links(user_id, target_key);
+      CREATE INDEX IF NOT EXISTS idx_notes_title_key ON notes(user_id, (${noteTitleKey()}));
+
+      CREATE TABLE IF NOT EXISTS note_revisions (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        note_id UUID REFERENCES notes(id) ON DELETE CASCADE,
+        user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+        version INTEGER NOT NULL,
+        title VARCHAR(255),
+        content TEXT,
+        saved_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_note_revisions_note ON note_revisions(note_id, created_at);
     `);
         console.log('Database tables initialized successfully');
     } catch (error) {
@@ -0,0 +1,93 @@
+const LOCAL_DIMENSIONS = 256;
+const OPENAI_EMBEDDING_MODEL = process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-3-small';
+
+export const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'how', 'in', 'is', 'it',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'what', 'when', 'where', 'which',
+  'who', 'why', 'with', 'does', 'do', 'can', 'i', 'you', 'me', 'my', 'explain'
+]);
+
+// 32-bit FNV-1a, stable across runs so stored vectors stay comparable.
+const fnv1a = (str) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < str.length; i++) {
+    hash ^= str.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const normalize = (vector) => {
+  let norm = 0;
+  for (const v of vector) norm += v * v;
+  norm = Math.sqrt(norm);
+  if (!norm) return vector;
+  return vector.map(v => v / norm);
+};
+
+// Feature-hashing embedder: word unigrams plus character trigrams, so that
+// inflections and partial matches ("oxidise" / "oxidation") land close together
+// without any network access. Deterministic for the same input text.
+export const createLocalEmbedder = (dimensions = LOCAL_DIMENSIONS) => {
+  const embedOne = (text) => {
+    const vector = new Array(dimensions).fill(0);
+    const words = (text || '')
+      .toLowerCase()
+      .replace(/[^a-z0-9\s]/g, ' ')
+      .split(/\s+/)
+      .filter(w => w && !STOPWORDS.has(w));
+
+    const addFeature = (feature, weight) => {
+      const hash = fnv1a(feature);
+      const sign = (hash & 0x80000000) ? -1 : 1;
+      vector[hash % dimensions] += sign * weight;
+    };
+
+    for (const word of words) {
+      addFeature(`w:${word}`, 1);
+      const padded = `#${word}#`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        addFeature(`c:${padded.slice(i, i + 3)}`, 0.5);
+      }
+    }
+    return normalize(vector);
+  };
+
+  return {
+    name: `local-hash-${dimensions}`,
+    dimensions,
+    embed: async (texts) => texts.map(embedOne)
+  };
+};
+
+export const createOpenAIEmbedder = (openai, model = OPENAI_EMBEDDING_MODEL) => ({
+  name: `openai-${model}`,
+  embed: async (texts) => {
+    const vectors = [];
+    for (let i = 0; i < texts.length; i += 100) {
+      const response = await openai.embeddings.create({ model, input: texts.slice(i, i + 100) });
+      vectors.push(...response.data.map(d => d.embedding));
+    }
+    return vectors;
+  }
+});
+
+// EMBEDDING_PROVIDER=openai uses the API; anything else (default) stays local.
+export const createEmbedder = (provider, openai) => {
+  if (provider === 'openai' && openai) return createOpenAIEmbedder(openai);
+  return createLocalEmbedder();
+};
+
+export const cosineSimilarity = (a, b) => {
+  if (!a || !b || a.length !== b.length) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (!normA || !normB) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+};
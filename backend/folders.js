@@ -0,0 +1,78 @@
+import pool from './db.js';
+
+// Folders form a tree per user: subjects at the root (parent_id NULL) with
+// topic folders below them. Anything scoped to a folder (retrieval, study
+// material, index status) covers its whole subtree, so a topic narrows the
+// scope and a subject never reaches into another subject.
+
+// Ids of the folder and every folder below it; empty when the user does not
+// own the folder.
+export const folderSubtreeIds = async (userId, folderId, db = pool) => {
+  const result = await db.query(
+    `WITH RECURSIVE subtree AS (
+       SELECT id FROM folders WHERE id = $1 AND user_id = $2
+       UNION ALL
+       SELECT f.id FROM folders f JOIN subtree s ON f.parent_id = s.id
+     )
+     SELECT id FROM subtree`,
+    [folderId, userId]
+  );
+  return result.rows.map(row => row.id);
+};
+
+// Ids of every folder in the subject the folder belongs to: its root subject
+// and the whole subtree below it. Empty when the user does not own the folder.
+export const subjectFolderIds = async (userId, folderId, db = pool) => {
+  const result = await db.query(
+    `WITH RECURSIVE ancestors AS (
+       SELECT id, parent_id FROM folders WHERE id = $1 AND user_id = $2
+       UNION ALL
+       SELECT f.id, f.parent_id FROM folders f JOIN ancestors a ON f.id = a.parent_id
+     )
+     SELECT id FROM ancestors WHERE parent_id IS NULL`,
+    [folderId, userId]
+  );
+  return result.rows[0] ? folderSubtreeIds(userId, result.rows[0].id, db) : [];
+};
+
+// Moves a folder under a new parent (null for a top-level subject) at the
+// given index among its new siblings, renumbering their positions.
+// Returns the status to report: 404 for unknown folders, 400 for a move into
+// the folder's own subtree.
+export const moveFolder = async (userId, folderId, parentId, index) => {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const owned = await client.query('SELECT id FROM folders WHERE user_id = $1 AND deleted_at IS NULL FOR UPDATE', [userId]);
+    const ownedIds = new Set(owned.rows.map(row => row.id));
+    if (!ownedIds.has(folderId) || (parentId && !ownedIds.has(parentId))) {
+      await client.query('ROLLBACK');
+      return { status: 404 };
+    }
+    if (parentId && (await folderSubtreeIds(userId, folderId, client)).includes(parentId)) {
+      await client.query('ROLLBACK');
+      return { status: 400 };
+    }
+
+    const siblings = await client.query(
+      `SELECT id FROM folders
+       WHERE user_id = $1 AND parent_id IS NOT DISTINCT FROM $2 AND id <> $3 AND deleted_at IS NULL
+       ORDER BY position ASC, created_at ASC`,
+      [userId, parentId, folderId]
+    );
+    const order = siblings.rows.map(row => row.id);
+    order.splice(Math.max(0, Math.min(index, order.length)), 0, folderId);
+
+    await client.query('UPDATE folders SET parent_id = $1 WHERE id = $2', [parentId, folderId]);
+    for (let i = 0; i < order.length; i++) {
+      await client.query('UPDATE folders SET position = $1 WHERE id = $2', [i, order[i]]);
+    }
+    await client.query('COMMIT');
+    return { status: 200 };
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+};
@@ -0,0 +1,152 @@
+import path from 'path';
+import JSZip from 'jszip';
+import mammoth from 'mammoth';
+import pdfParse from 'pdf-parse-new';
+import Tesseract from 'tesseract.js';
+import TurndownService from 'turndown';
+import { pageMarker } from './pages.js';
+
+// Upload importers turn a file into note text (markdown where the source has
+// structure, so headings survive into section-aware chunking). Each one:
+//   { name, extensions, mimeTypes, parse: async (buffer) => string }
+// Errors carry `status` like the speech providers do.
+
+const importError = (message, status) => Object.assign(new Error(message), { status });
+
+const turndown = new TurndownService({ headingStyle: 'atx', codeBlockStyle: 'fenced', bulletListMarker: '-' });
+turndown.remove(['script', 'style', 'noscript']);
+
+const htmlToMarkdown = (html) => turndown.turndown(html);
+
+const decodeXml = (text) => text
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&quot;/g, '"')
+  .replace(/&apos;/g, "'")
+  .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+  .replace(/&amp;/g, '&');
+
+// Slide text in reading order: one line per <a:p> paragraph, joining its runs.
+const slideText = (xml) => [...xml.matchAll(/<a:p>([\s\S]*?)<\/a:p>/g)]
+  .map(([, paragraph]) => [...paragraph.matchAll(/<a:t>([\s\S]*?)<\/a:t>/g)].map(([, run]) => decodeXml(run)).join(''))
+  .map(line => line.trim())
+  .filter(Boolean);
+
+// Text per page, each page opened by its marker so citations can name it.
+const parsePdf = async (buffer) => {
+  const pages = [];
+  await pdfParse(buffer, {
+    pagerender: async (pageData) => {
+      const text = await pdfParse.DEFAULT_OPTIONS.pagerender(pageData);
+      pages.push({ page: pageData.pageNumber, text: text.trim() });
+      return text;
+    }
+  });
+  return pages
+    .filter(p => p.text)
+    .map(p => `${pageMarker(p.page)}\n${p.text}`)
+    .join('\n\n');
+};
+
+const parsePptx = async (buffer) => {
+  const zip = await JSZip.loadAsync(buffer);
+  const slideNumber = (name) => Number(name.match(/slide(\d+)\.xml$/)[1]);
+  const slides = Object.keys(zip.files)
+    .filter(name => /^ppt\/slides\/slide\d+\.xml$/.test(name))
+    .sort((a, b) => slideNumber(a) - slideNumber(b));
+
+  const sections = [];
+  for (const name of slides) {
+    const [title, ...body] = slideText(await zip.file(name).async('string'));
+    if (!title) continue;
+    sections.push([`## Slide ${slideNumber(name)}: ${title}`, ...body.map(line => `- ${line}`)].join('\n'));
+  }
+  return sections.join('\n\n');
+};
+
+// OCR runs in-process with Tesseract. The worker is created on first use and
+// reused; OCR_LANG picks the language (default English) and OCR_LANG_PATH
+// can point at a local folder of traineddata files.
+let ocrWorker = null;
+
+const recognizeImage = async (buffer) => {
+  if (!ocrWorker) {
+    ocrWorker = Tesseract.createWorker(process.env.OCR_LANG || 'eng', 1, {
+      ...(process.env.OCR_LANG_PATH ? { langPath: process.env.OCR_LANG_PATH } : {})
+    }).catch(err => {
+      ocrWorker = null;
+      throw err;
+    });
+  }
+  const worker = await ocrWorker;
+  const { data } = await worker.recognize(buffer);
+  return data.text;
+};
+
+export const IMPORTERS = [
+  {
+    name: 'pdf',
+    extensions: ['.pdf'],
+    mimeTypes: ['application/pdf'],
+    parse: parsePdf
+  },
+  {
+    name: 'text',
+    extensions: ['.txt'],
+    mimeTypes: ['text/plain'],
+    parse: async (buffer) => buffer.toString('utf-8')
+  },
+  {
+    name: 'markdown',
+    extensions: ['.md', '.markdown'],
+    mimeTypes: ['text/markdown', 'text/x-markdown'],
+    parse: async (buffer) => buffer.toString('utf-8')
+  },
+  {
+    name: 'html',
+    extensions: ['.html', '.htm'],
+    mimeTypes: ['text/html'],
+    parse: async (buffer) => htmlToMarkdown(buffer.toString('utf-8'))
+  },
+  {
+    name: 'docx',
+    extensions: ['.docx'],
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+    parse: async (buffer) => htmlToMarkdown((await mammoth.convertToHtml({ buffer })).value)
+  },
+  {
+    name: 'pptx',
+    extensions: ['.pptx'],
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.presentationml.presentation'],
+    parse: parsePptx
+  },
+  {
+    name: 'image',
+    extensions: ['.png', '.jpg', '.jpeg', '.webp', '.bmp', '.gif'],
+    mimeTypes: ['image/png', 'image/jpeg', 'image/webp', 'image/bmp', 'image/gif'],
+    parse: recognizeImage
+  }
+];
+
+export const SUPPORTED_EXTENSIONS = IMPORTERS.flatMap(importer => importer.extensions);
+
+// Matches on extension first: browsers often send a generic or empty mimetype
+// for .md, .docx and .pptx files.
+export const findImporter = ({ originalname, mimetype }) => {
+  const extension = path.extname(originalname || '').toLowerCase();
+  return IMPORTERS.find(importer => importer.extensions.includes(extension)) ||
+    IMPORTERS.find(importer => importer.mimeTypes.includes(mimetype));
+};
+
+export const importFile = async (file) => {
+  const importer = findImporter(file);
+  if (!importer) {
+    throw importError(`Unsupported file type. Supported types: ${SUPPORTED_EXTENSIONS.join(', ')}`, 415);
+  }
+
+  const content = ((await importer.parse(file.buffer)) || '').replace(/\r\n/g, '\n').trim();
+  if (!content) throw importError(`No text could be extracted from ${file.originalname}.`, 422);
+  // Browsers send a generic mimetype for some files; fall back to the importer's
+  const mimeType = importer.mimeTypes.includes(file.mimetype) ? file.mimetype : importer.mimeTypes[0];
+  return { importer: importer.name, mimeType, content };
+};
@@ -0,0 +1,110 @@
+import pool, { noteTitleKey } from './db.js';
+
+// Notes link to each other by title with [[Note Title]]. Links are kept in
+// note_links by the normalised title they name (see linkKey), not by note id,
+// so a link resolves to whichever notes carry that title now, including notes
+// created after the link was written. Links inside fenced code are ignored.
+
+const LINK_PATTERN = /\[\[([^[\]\n]+?)\]\]/g;
+
+// Case- and spacing-insensitive form of a title; noteTitleKey is the SQL twin.
+export const linkKey = (title) => title.trim().replace(/\s+/g, ' ').toLowerCase();
+
+// Applies `replace(link, title)` to every link outside fenced code blocks.
+const mapLinks = (content, replace) => {
+  let inFence = false;
+  return content.split('\n').map(line => {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      return line;
+    }
+    return inFence ? line : line.replace(LINK_PATTERN, replace);
+  }).join('\n');
+};
+
+export const parseLinkKeys = (content) => {
+  const keys = new Set();
+  mapLinks(content || '', (link, title) => {
+    if (linkKey(title)) keys.add(linkKey(title));
+    return link;
+  });
+  return [...keys];
+};
+
+// Replaces the note's stored links with the ones in its content. Run by the
+// indexer, which sees every content change.
+export const syncNoteLinks = async (note) => {
+  const keys = parseLinkKeys(note.content);
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query('DELETE FROM note_links WHERE note_id = $1', [note.id]);
+    if (keys.length) {
+      await client.query(
+        `INSERT INTO note_links (note_id, user_id, target_key)
+         SELECT $1, $2, UNNEST($3::text[])`,
+        [note.id, note.user_id, keys]
+      );
+    }
+    await client.query('COMMIT');
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+};
+
+// Records links for notes written before links were tracked. Run once at startup.
+export const backfillLinks = async () => {
+  const result = await pool.query(
+    `SELECT id, user_id, content FROM notes n
+     WHERE content LIKE '%[[%' AND NOT EXISTS (SELECT 1 FROM note_links l WHERE l.note_id = n.id)`
+  );
+  for (const note of result.rows) await syncNoteLinks(note);
+  return result.rows.length;
+};
+
+// After a rename, rewrites [[Old Title]] links in the user's other notes to
+// the new title and returns the notes it changed (marked stale for
+// re-indexing). Nothing is rewritten while another note still has the old
+// title, which the links then go on naming, or when the new title is empty or
+// already taken, which would leave the links dangling or ambiguous. A note
+// edited since it was read is skipped rather than overwritten.
+export const relinkNotes = async (userId, note, previousTitle) => {
+  const oldKey = linkKey(previousTitle || '');
+  const newTitle = (note.title || '').trim().replace(/\s+/g, ' ');
+  if (!oldKey || !newTitle || oldKey === linkKey(newTitle)) return [];
+
+  const taken = await pool.query(
+    `SELECT 1 FROM notes
+     WHERE user_id = $1 AND id <> $2 AND deleted_at IS NULL AND ${noteTitleKey()} = ANY($3::text[])
+     LIMIT 1`,
+    [userId, note.id, [oldKey, linkKey(newTitle)]]
+  );
+  if (taken.rows.length) return [];
+
+  const linking = await pool.query(
+    `SELECT n.id, n.content, n.version FROM notes n
+     JOIN note_links l ON l.note_id = n.id
+     WHERE l.user_id = $1 AND l.target_key = $2 AND n.id <> $3 AND n.deleted_at IS NULL`,
+    [userId, oldKey, note.id]
+  );
+
+  const relinked = [];
+  for (const row of linking.rows) {
+    const content = mapLinks(row.content || '', (link, title) => linkKey(title) === oldKey ? `[[${newTitle}]]` : link);
+    if (content === row.content) continue;
+    const result = await pool.query(
+      `UPDATE notes SET content = $1, updated_at = CURRENT_TIMESTAMP, version = version + 1, index_status = 'stale'
+       WHERE id = $2 AND version = $3 RETURNING *`,
+      [content, row.id, row.version]
+    );
+    if (!result.rows[0]) continue;
+    // Recorded now rather than by the indexer, so a rename straight after
+    // this one still finds these links
+    await syncNoteLinks(result.rows[0]);
+    relinked.push(result.rows[0]);
+  }
+  return relinked;
+};
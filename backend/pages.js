@@ -0,0 +1,7 @@
+// Imported documents keep their page boundaries as a marker line at the start
+// of each page. Markers are HTML comments, so the markdown preview hides them
+// and they survive edits to the note; the chunker reads them back so every
+// chunk knows its page.
+export const pageMarker = (page) => `<!-- page ${page} -->`;
+
+export const PAGE_MARKER_PATTERN = /^\s*<!--\s*page\s+(\d+)\s*-->\s*$/;
@@ -0,0 +1,138 @@
+// Question types the study generator can produce, keyed by the option name the
+// client sends and the array name used in the returned JSON.
+export const QUESTION_TYPES = {
+  mcq: { key: 'mcqs', label: 'Multiple Choice Questions (MCQs)' },
+  saq: { key: 'short_answer_questions', label: 'Short-Answer Questions' },
+  trueFalse: { key: 'true_false_questions', label: 'True/False statements' },
+  fillBlank: { key: 'fill_blank_questions', label: 'Fill-in-the-blank sentences' },
+  multiSelect: { key: 'multi_select_questions', label: 'Multi-select questions' },
+  flashcards: { key: 'flashcards', label: 'conceptual Flashcards' }
+};
+
+export const DEFAULT_QUIZ_OPTIONS = {
+  counts: { mcq: 5, saq: 3, trueFalse: 0, fillBlank: 0, multiSelect: 0, flashcards: 5 },
+  difficulty: 'moderate',
+  noteIds: []
+};
+
+export const DIFFICULTIES = {
+  easy: 'Easy (recall of definitions and key facts)',
+  moderate: 'Moderate (suitable for undergraduate level)',
+  hard: 'Hard (application, multi-step reasoning and edge cases)'
+};
+
+const MAX_PER_TYPE = 15;
+const MCQ_OPTIONS = ['A', 'B', 'C', 'D'];
+const MULTI_SELECT_OPTIONS = ['A', 'B', 'C', 'D', 'E'];
+
+// Fills in defaults and clamps whatever the client sent.
+export const normalizeQuizOptions = (options = {}) => {
+  const counts = {};
+  for (const type of Object.keys(QUESTION_TYPES)) {
+    const raw = Number(options.counts?.[type] ?? DEFAULT_QUIZ_OPTIONS.counts[type]);
+    counts[type] = Number.isFinite(raw) ? Math.max(0, Math.min(MAX_PER_TYPE, Math.round(raw))) : 0;
+  }
+  return {
+    counts,
+    difficulty: DIFFICULTIES[options.difficulty] ? options.difficulty : DEFAULT_QUIZ_OPTIONS.difficulty,
+    noteIds: Array.isArray(options.noteIds) ? options.noteIds.filter(id => typeof id === 'string') : []
+  };
+};
+
+const isText = (value) => typeof value === 'string' && value.trim().length > 0;
+
+const hasCitations = (item) => Array.isArray(item.citations) &&
+  item.citations.every(c => typeof c === 'string' || (c && isText(c.id)));
+
+const itemErrors = {
+  mcq: (item) => [
+    !isText(item.question) && 'question must be a non-empty string',
+    !(item.options && MCQ_OPTIONS.every(k => isText(item.options[k]))) && 'options must have string values for A, B, C and D',
+    !MCQ_OPTIONS.includes(item.correct_answer) && 'correct_answer must be one of A, B, C, D',
+    !isText(item.explanation) && 'explanation must be a non-empty string',
+    !hasCitations(item) && 'citations must be an array'
+  ],
+  saq: (item) => [
+    !isText(item.question) && 'question must be a non-empty string',
+    !isText(item.model_answer) && 'model_answer must be a non-empty string',
+    !hasCitations(item) && 'citations must be an array'
+  ],
+  trueFalse: (item) => [
+    !isText(item.statement) && 'statement must be a non-empty string',
+    typeof item.answer !== 'boolean' && 'answer must be true or false',
+    !isText(item.explanation) && 'explanation must be a non-empty string',
+    !hasCitations(item) && 'citations must be an array'
+  ],
+  fillBlank: (item) => [
+    !(isText(item.sentence) && item.sentence.includes('____')) && 'sentence must contain a ____ blank',
+    !isText(item.answer) && 'answer must be a non-empty string',
+    item.accepted_answers !== undefined && !(Array.isArray(item.accepted_answers) && item.accepted_answers.every(isText)) && 'accepted_answers must be an array of strings',
+    !isText(item.explanation) && 'explanation must be a non-empty string',
+    !hasCitations(item) && 'citations must be an array'
+  ],
+  multiSelect: (item) => [
+    !isText(item.question) && 'question must be a non-empty string',
+    !(item.options && MULTI_SELECT_OPTIONS.every(k => isText(item.options[k]))) && 'options must have string values for A, B, C, D and E',
+    !(Array.isArray(item.correct_answers) && item.correct_answers.length >= 2 &&
+      item.correct_answers.every(a => MULTI_SELECT_OPTIONS.includes(a)) &&
+      new Set(item.correct_answers).size === item.correct_answers.length) && 'correct_answers must list at least two different letters of A-E',
+    !isText(item.explanation) && 'explanation must be a non-empty string',
+    !hasCitations(item) && 'citations must be an array'
+  ],
+  flashcards: (item) => [
+    !isText(item.front) && 'front must be a non-empty string',
+    !isText(item.back) && 'back must be a non-empty string'
+  ]
+};
+
+// Checks generated study material against the requested shape. Returns a list
+// of human-readable problems (empty when valid), phrased so they can be sent
+// back to the model on retry. Too few items is a problem; extra items beyond
+// the requested count are trimmed.
+export const validateStudyMaterial = (data, options) => {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) return ['response must be a JSON object'];
+
+  const errors = [];
+  for (const [type, { key }] of Object.entries(QUESTION_TYPES)) {
+    const count = options.counts[type];
+    if (!count) {
+      data[key] = [];
+      continue;
+    }
+    if (!Array.isArray(data[key]) || data[key].length === 0) {
+      errors.push(`"${key}" must be a non-empty array of ${count} items`);
+      continue;
+    }
+    if (data[key].length < count) {
+      errors.push(`"${key}" must have ${count} items, not ${data[key].length}`);
+    }
+    data[key] = data[key].slice(0, count);
+    data[key].forEach((item, idx) => {
+      if (!item || typeof item !== 'object') {
+        errors.push(`${key}[${idx}] must be an object`);
+        return;
+      }
+      for (const problem of itemErrors[type](item)) {
+        if (problem) errors.push(`${key}[${idx}].${problem}`);
+      }
+    });
+  }
+  return errors;
+};
+
+const normalizeBlank = (text) => String(text || '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// Auto-marked question types. Answers for all of them are stored in one map;
+// `prefix` keeps their keys apart (MCQs keep bare indexes for older sessions).
+export const OBJECTIVE_TYPES = {
+  mcqs: { prefix: '', isCorrect: (q, answer) => answer === q.correct_answer },
+  true_false_questions: { prefix: 'tf-', isCorrect: (q, answer) => answer === String(q.answer) },
+  fill_blank_questions: {
+    prefix: 'fib-',
+    isCorrect: (q, answer) => [q.answer, ...(q.accepted_answers || [])].some(a => normalizeBlank(a) === normalizeBlank(answer))
+  },
+  multi_select_questions: {
+    prefix: 'ms-',
+    isCorrect: (q, answer) => String(answer).split(',').sort().join(',') === [...q.correct_answers].sort().join(',')
+  }
+};
@@ -0,0 +1,344 @@
+import crypto from 'crypto';
+import pool, { noteTitleKey } from './db.js';
+import { cosineSimilarity, STOPWORDS } from './embeddings.js';
+import { folderSubtreeIds, subjectFolderIds } from './folders.js';
+import { syncNoteLinks } from './links.js';
+import { PAGE_MARKER_PATTERN } from './pages.js';
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const VECTOR_WEIGHT = 0.6;
+
+// Markdown structure of a note: ATX headings, page markers from imported
+// documents and the blank lines between paragraphs, all ignored inside fenced
+// code blocks. Headings and page markers come back in one list, in order.
+const scanMarkdown = (text) => {
+  const boundaries = [];
+  const breaks = [];
+  let inFence = false;
+  let offset = 0;
+  for (const line of text.split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+    } else if (!inFence) {
+      const heading = /^(#{1,6})\s+(.+?)\s*#*\s*$/.exec(line);
+      const page = PAGE_MARKER_PATTERN.exec(line);
+      if (heading) boundaries.push({ level: heading[1].length, title: heading[2], start: offset });
+      else if (page) boundaries.push({ page: Number(page[1]), start: offset, contentStart: offset + line.length + 1 });
+      else if (!line.trim()) breaks.push(offset);
+    }
+    offset += line.length + 1;
+  }
+  return { boundaries, breaks };
+};
+
+// Splits a note into chunks that never cross a heading or a page boundary.
+// Each chunk records its section as the path of enclosing headings
+// ("Kinetics › Rate laws"), or '' for text before the first heading, and the
+// page it sits on (null for notes without page markers). The marker lines
+// themselves are left out of every chunk.
+export const chunkText = (text, maxChars = 800) => {
+  const chunks = [];
+  if (!text) return chunks;
+  const { boundaries, breaks } = scanMarkdown(text);
+
+  const sections = [];
+  const trail = [];
+  let sectionStart = 0;
+  let path = '';
+  let page = null;
+  for (const boundary of boundaries) {
+    sections.push({ start: sectionStart, end: boundary.start, path, page });
+    if (boundary.page) {
+      page = boundary.page;
+      sectionStart = Math.min(boundary.contentStart, text.length);
+      continue;
+    }
+    while (trail.length && trail[trail.length - 1].level >= boundary.level) trail.pop();
+    trail.push(boundary);
+    path = trail.map(h => h.title).join(' › ');
+    sectionStart = boundary.start;
+  }
+  sections.push({ start: sectionStart, end: text.length, path, page });
+
+  for (const section of sections) {
+    // Paragraph spans keep their character offsets into the original text so
+    // citations can point back at the exact passage.
+    const paragraphs = [];
+    let last = section.start;
+    for (const cut of breaks) {
+      if (cut <= section.start || cut >= section.end) continue;
+      paragraphs.push({ start: last, end: cut });
+      last = cut;
+    }
+    paragraphs.push({ start: last, end: section.end });
+
+    let current = null;
+    for (const p of paragraphs) {
+      const raw = text.slice(p.start, p.end);
+      const paragraph = raw.trim();
+      if (!paragraph) continue;
+      const start = p.start + (raw.length - raw.trimStart().length);
+      const end = start + paragraph.length;
+
+      if (current && end - current.start <= maxChars) {
+        current.end = end;
+        continue;
+      }
+      if (current) chunks.push(current);
+      current = null;
+      if (end - start <= maxChars) {
+        current = { start, end, section: section.path, page: section.page };
+      } else {
+        for (let s = start; s < end; s += maxChars) {
+          chunks.push({ start: s, end: Math.min(s + maxChars, end), section: section.path, page: section.page });
+        }
+      }
+    }
+    if (current) chunks.push(current);
+  }
+  return chunks.map(c => ({ text: text.slice(c.start, c.end), start: c.start, end: c.end, section: c.section, page: c.page }));
+};
+
+// How prompts and citations name a chunk: its page for imported documents
+// ("Lecture 4.pdf, p. 12"), its section when the note has headings, otherwise
+// its position.
+export const chunkLabel = (chunk) => {
+  if (chunk.page) return `${chunk.noteTitle}, p. ${chunk.page}${chunk.section ? ` · ${chunk.section}` : ''}`;
+  return `${chunk.noteTitle}, ${chunk.section || `Chunk ${chunk.chunkIndex}`}`;
+};
+
+export const tokenize = (text) =>
+  (text || '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+
+// Okapi BM25 over the candidate chunks only; the folder is the corpus.
+const bm25Scores = (question, chunks) => {
+  const queryTerms = [...new Set(tokenize(question))].filter(t => !STOPWORDS.has(t));
+  const docs = chunks.map(c => tokenize(c.text));
+  const avgLength = docs.reduce((sum, d) => sum + d.length, 0) / (docs.length || 1);
+
+  const docFreq = new Map();
+  for (const term of queryTerms) {
+    docFreq.set(term, docs.filter(d => d.includes(term)).length);
+  }
+
+  return docs.map(doc => {
+    const termFreq = new Map();
+    for (const t of doc) termFreq.set(t, (termFreq.get(t) || 0) + 1);
+
+    let score = 0;
+    for (const term of queryTerms) {
+      const tf = termFreq.get(term) || 0;
+      if (!tf) continue;
+      const df = docFreq.get(term);
+      const idf = Math.log(1 + (docs.length - df + 0.5) / (df + 0.5));
+      score += idf * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * doc.length / (avgLength || 1)));
+    }
+    return score;
+  });
+};
+
+// Hybrid ranking: BM25 normalised to the best keyword hit, blended with the
+// cosine similarity between the question and chunk embeddings.
+export const rankChunks = (question, queryEmbedding, chunks, limit = 5) => {
+  if (!chunks.length) return [];
+
+  const keyword = bm25Scores(question, chunks);
+  const maxKeyword = Math.max(...keyword) || 1;
+
+  const ranked = chunks.map((chunk, i) => {
+    const bm25 = keyword[i];
+    const similarity = Math.max(0, cosineSimilarity(queryEmbedding, chunk.embedding));
+    return {
+      ...chunk,
+      bm25,
+      similarity,
+      score: VECTOR_WEIGHT * similarity + (1 - VECTOR_WEIGHT) * (bm25 / maxKeyword)
+    };
+  });
+
+  ranked.sort((a, b) => b.score - a.score);
+  return ranked.slice(0, limit);
+};
+
+const rowToChunk = (row, noteTitle) => ({
+  noteId: row.note_id,
+  noteTitle: noteTitle || 'Untitled Note',
+  chunkIndex: row.chunk_index,
+  section: row.section || '',
+  page: row.page,
+  start: row.start_offset,
+  end: row.end_offset,
+  text: row.text,
+  embedding: row.embedding
+});
+
+// Re-chunks and re-embeds a single note, replacing its stored chunks.
+const indexNote = async (note, embedder) => {
+  const pieces = chunkText(note.content || '');
+  const embeddings = pieces.length ? await embedder.embed(pieces.map(p => p.text)) : [];
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query('DELETE FROM note_chunks WHERE note_id = $1', [note.id]);
+    const rows = [];
+    for (let i = 0; i < pieces.length; i++) {
+      const result = await client.query(
+        `INSERT INTO note_chunks (note_id, user_id, folder_id, chunk_index, section, page, start_offset, end_offset, text, embedding, embedding_model)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11) RETURNING *`,
+        [note.id, note.user_id, note.folder_id, i + 1, pieces[i].section, pieces[i].page, pieces[i].start, pieces[i].end, pieces[i].text, embeddings[i], embedder.name]
+      );
+      rows.push(result.rows[0]);
+    }
+    await client.query('COMMIT');
+    return rows.map(row => rowToChunk(row, note.title));
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+};
+
+export const hashContent = (content) =>
+  crypto.createHash('sha256').update(content || '').digest('hex');
+
+// Brings a note's chunks up to date, skipping notes whose content hash and
+// embedding model already match what is stored. Chunks from before sections
+// were recorded (section IS NULL) are redone too. The note's [[links]] are
+// refreshed either way; they do not depend on the embedder.
+const reindexNote = async (noteId, embedder) => {
+  let note;
+  try {
+    const noteRes = await pool.query(
+      'SELECT id, user_id, folder_id, title, content, content_hash, index_status FROM notes WHERE id = $1',
+      [noteId]
+    );
+    note = noteRes.rows[0];
+    if (!note) return;
+
+    try {
+      await syncNoteLinks(note);
+    } catch (err) {
+      console.error('Link sync error:', err);
+    }
+
+    const hash = hashContent(note.content);
+    if (note.content_hash === hash && note.index_status === 'indexed') {
+      const modelRes = await pool.query(
+        'SELECT 1 FROM note_chunks WHERE note_id = $1 AND (embedding_model <> $2 OR section IS NULL) LIMIT 1',
+        [noteId, embedder.name]
+      );
+      if (modelRes.rows.length === 0) return;
+    }
+
+    await indexNote(note, embedder);
+    await pool.query(
+      `UPDATE notes SET content_hash = $1, index_status = 'indexed', index_error = NULL, indexed_at = CURRENT_TIMESTAMP WHERE id = $2`,
+      [hash, noteId]
+    );
+  } catch (err) {
+    console.error('Indexing error:', err);
+    if (!note) return;
+    await pool.query(
+      `UPDATE notes SET index_status = 'failed', index_error = $1 WHERE id = $2`,
+      [err.message, noteId]
+    );
+  }
+};
+
+// One run per note at a time; edits that arrive mid-run queue exactly one
+// follow-up run, which reads the latest content when it starts.
+const pendingIndex = new Map();
+
+export const queueReindex = (note, embedder) => {
+  const previous = pendingIndex.get(note.id);
+  if (previous && previous.queued) return previous.promise;
+
+  const entry = { folderId: note.folder_id, queued: true, promise: null };
+  entry.promise = (previous ? previous.promise : Promise.resolve())
+    .then(() => {
+      entry.queued = false;
+      return reindexNote(note.id, embedder);
+    })
+    // Never rejects, so neither the next run nor loadFolderChunks can fail on it
+    .catch(err => console.error('Reindex error:', err))
+    .finally(() => {
+      if (pendingIndex.get(note.id) === entry) pendingIndex.delete(note.id);
+    });
+  pendingIndex.set(note.id, entry);
+  return entry.promise;
+};
+
+// Queues every note that was never indexed, failed, was embedded with a
+// different model or chunked without sections. Run once at startup.
+export const backfillIndex = async (embedder) => {
+  const result = await pool.query(
+    `SELECT id, folder_id FROM notes
+     WHERE content_hash IS NULL
+        OR index_status IS DISTINCT FROM 'indexed'
+        OR id IN (SELECT note_id FROM note_chunks WHERE embedding_model <> $1 OR section IS NULL)`,
+    [embedder.name]
+  );
+  for (const note of result.rows) queueReindex(note, embedder);
+  return result.rows.length;
+};
+
+// Loads every indexed chunk in a folder and the topics below it, waiting for
+// in-flight indexing of those notes first.
+export const loadFolderChunks = async (userId, folderId) => {
+  const folderIds = await folderSubtreeIds(userId, folderId);
+  const inFlight = [...pendingIndex.values()].filter(e => folderIds.includes(e.folderId)).map(e => e.promise);
+  await Promise.all(inFlight);
+
+  const result = await pool.query(
+    `SELECT c.*, n.title FROM note_chunks c
+     JOIN notes n ON n.id = c.note_id
+     WHERE c.user_id = $1 AND c.folder_id = ANY($2::uuid[]) AND n.deleted_at IS NULL
+     ORDER BY n.created_at ASC, c.chunk_index ASC`,
+    [userId, folderIds]
+  );
+  return result.rows.map(row => rowToChunk(row, row.title));
+};
+
+// Chunks of the notes that the given notes link to with [[Title]], so an
+// answer can follow a link out of the topic asked about. Links are followed
+// only within the subject folderId belongs to, and in-flight indexing of the
+// linked notes is waited for first.
+export const loadLinkedChunks = async (userId, folderId, noteIds) => {
+  if (!noteIds.length) return [];
+  const folderIds = await subjectFolderIds(userId, folderId);
+  const linkedRes = await pool.query(
+    `SELECT n.id FROM notes n
+     WHERE n.user_id = $1 AND n.deleted_at IS NULL AND n.folder_id = ANY($3::uuid[]) AND NOT (n.id = ANY($2::uuid[]))
+       AND ${noteTitleKey('n.title')} IN (SELECT target_key FROM note_links WHERE user_id = $1 AND note_id = ANY($2::uuid[]))`,
+    [userId, noteIds, folderIds]
+  );
+  const linkedIds = linkedRes.rows.map(row => row.id);
+  if (!linkedIds.length) return [];
+  await Promise.all(linkedIds.filter(id => pendingIndex.has(id)).map(id => pendingIndex.get(id).promise));
+
+  const result = await pool.query(
+    `SELECT c.*, n.title FROM note_chunks c
+     JOIN notes n ON n.id = c.note_id
+     WHERE c.user_id = $1 AND c.note_id = ANY($2::uuid[]) AND n.deleted_at IS NULL
+     ORDER BY n.created_at ASC, c.chunk_index ASC`,
+    [userId, linkedIds]
+  );
+  return result.rows.map(row => rowToChunk(row, row.title));
+};
+
+// Reassembles per-note text from chunks for prompts that need whole notes.
+export const groupChunksByNote = (chunks) => {
+  const notes = new Map();
+  for (const chunk of chunks) {
+    if (!notes.has(chunk.noteId)) notes.set(chunk.noteId, { noteId: chunk.noteId, title: chunk.noteTitle, chunks: [] });
+    notes.get(chunk.noteId).chunks.push(chunk.text);
+  }
+  return [...notes.values()].map(n => ({ noteId: n.noteId, title: n.title, content: n.chunks.join('\n\n') }));
+};
@@ -0,0 +1,68 @@
+import pool, { NOTE_SEARCH_VECTOR } from './db.js';
+import { IMPORTERS } from './importers.js';
+
+// Full-text search over the user's notes, ranked with ts_rank over
+// NOTE_SEARCH_VECTOR (title weighted above content). Every term is matched
+// as a prefix so results keep up while the user is still typing a word.
+// Matches in the returned title and snippet are wrapped in HIGHLIGHT_START /
+// HIGHLIGHT_END, control characters that cannot clash with note text or HTML.
+
+export const HIGHLIGHT_START = '\u0002';
+export const HIGHLIGHT_END = '\u0003';
+export const FRAGMENT_DELIMITER = ' … ';
+
+const MAX_SEARCH_TERMS = 10;
+const MAX_SEARCH_HITS = 50;
+
+const headlineOptions = (extra) =>
+  `StartSel="${HIGHLIGHT_START}", StopSel="${HIGHLIGHT_END}", ${extra}`;
+
+const SNIPPET_OPTIONS = headlineOptions(`MaxFragments=2, MaxWords=30, MinWords=12, FragmentDelimiter="${FRAGMENT_DELIMITER}"`);
+const TITLE_OPTIONS = headlineOptions('HighlightAll=true');
+
+// Typed notes have no source file; uploads are filtered by the importer that
+// read them, e.g. 'pdf' or 'docx'.
+export const SEARCH_FILE_TYPES = ['note', ...IMPORTERS.map(importer => importer.name)];
+
+// Words only, so the tsquery built from them needs no escaping
+const searchTerms = (query) =>
+  (query.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).slice(0, MAX_SEARCH_TERMS);
+
+// folderIds limits the search to those folders (null searches every subject);
+// from/to are inclusive 'YYYY-MM-DD' dates matched against the last edit.
+export const searchNotes = async (userId, query, { folderIds = null, fileType = null, from = null, to = null } = {}) => {
+  const terms = searchTerms(query);
+  if (terms.length === 0) return [];
+
+  const sourceTypes = fileType && fileType !== 'note'
+    ? IMPORTERS.find(importer => importer.name === fileType)?.mimeTypes || []
+    : null;
+
+  const result = await pool.query(
+    `WITH q AS (SELECT to_tsquery('english', $2) AS query),
+     hits AS (
+       SELECT n.id, n.title, n.content, n.folder_id, n.updated_at, n.source_type,
+              ts_rank(${NOTE_SEARCH_VECTOR}, q.query) AS rank
+       FROM notes n, q
+       WHERE n.user_id = $1 AND n.deleted_at IS NULL AND ${NOTE_SEARCH_VECTOR} @@ q.query
+         AND ($3::uuid[] IS NULL OR n.folder_id = ANY($3::uuid[]))
+         AND (NOT $4::boolean OR n.source_key IS NULL)
+         AND ($5::text[] IS NULL OR n.source_type = ANY($5::text[]))
+         AND ($6::date IS NULL OR n.updated_at >= $6::date)
+         AND ($7::date IS NULL OR n.updated_at < $7::date + 1)
+       ORDER BY rank DESC, n.updated_at DESC
+       LIMIT ${MAX_SEARCH_HITS}
+     )
+     SELECT h.id, h.folder_id, h.updated_at, h.source_type, h.rank,
+            ts_headline('english', COALESCE(h.title, ''), q.query, $8) AS title,
+            ts_headline('english', COALESCE(h.content, ''), q.query, $9) AS snippet
+     FROM hits h, q
+     ORDER BY h.rank DESC, h.updated_at DESC`,
+    [
+      userId, terms.map(term => `${term}:*`).join(' & '),
+      folderIds, fileType === 'note', sourceTypes, from, to,
+      TITLE_OPTIONS, SNIPPET_OPTIONS
+    ]
+  );
+  return result.rows;
+};
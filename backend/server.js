@@ -3,10 +3,22 @@ import cors from 'cors';
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 import pool, { initDb } from './db.js';
+import { createEmbedder, STOPWORDS } from './embeddings.js';
+import { verificationStatus, verifyCitations } from './verify.js';
+import { GRADES, scheduleReview } from './srs.js';
+import { folderSubtreeIds, moveFolder } from './folders.js';
+import { importFile } from './importers.js';
+import { backfillLinks, relinkNotes } from './links.js';
+import { searchNotes, SEARCH_FILE_TYPES } from './search.js';
+import { createSpeechProvider } from './speech.js';
+import { createStorage } from './storage.js';
+import { listTrash, purgeTrash, restoreTrashEntry, trashFolder, trashNotes, TRASH_RETENTION_DAYS } from './trash.js';
+import { DIFFICULTIES, normalizeQuizOptions, OBJECTIVE_TYPES, QUESTION_TYPES, validateStudyMaterial } from './quizSchema.js';
+import { backfillIndex, chunkLabel, groupChunksByNote, hashContent, loadFolderChunks, loadLinkedChunks, queueReindex, rankChunks, tokenize } from './retrieval.js';
 import dotenv from 'dotenv';
+import JSZip from 'jszip';
 import OpenAI from 'openai';
 import multer from 'multer';
-import pdfParse from 'pdf-parse-new';
 import { OAuth2Client } from 'google-auth-library';
 
 dotenv.config();
@@ -29,6 +41,24 @@ try {
   console.log("OpenAI initialization skipped (no API key).");
 }
 
+const embedder = createEmbedder(process.env.EMBEDDING_PROVIDER, openai);
+const speech = createSpeechProvider(process.env.SPEECH_PROVIDER, {
+  openai,
+  hfApiKey: HF_API_KEY,
+  hfSttModel: HF_STT_MODEL,
+  hfTtsModel: HF_TTS_MODEL
+});
+
+const storage = createStorage(process.env.STORAGE_PROVIDER, { uploadDir: process.env.UPLOAD_DIR });
+
+// Deletes the stored originals of notes that are gone. A file that cannot be
+// removed is only logged: the note itself is already deleted.
+const removeSourceFiles = async (keys) => {
+  for (const key of keys.filter(Boolean)) {
+    await storage.remove(key).catch(err => console.error('Source file cleanup error:', err));
+  }
+};
+
 const app = express();
 app.use(cors());
 app.use(express.json());
@@ -38,58 +68,261 @@ const upload = multer({ storage: multer.memoryStorage() });
 const PORT = process.env.PORT || 5000;
 const JWT_SECRET = process.env.JWT_SECRET || 'super-secret-key-123';
 
-const chunkText = (text, maxChars = 800) => {
-  const chunks = [];
-  if (!text) return chunks;
+// Confidence from the evidence rather than the model's say-so: how much of the
+// question the cited passages cover, how close they sit to it in embedding
+// space, and how many of the answer's sentences carry a citation.
+const computeConfidence = ({ question, answer, topChunks, citations }) => {
+  const questionTerms = [...new Set(tokenize(question))].filter(t => !STOPWORDS.has(t));
+  const cited = topChunks.filter(chunk =>
+    citations.some(c => c.noteId === chunk.noteId && c.chunkIndex === chunk.chunkIndex)
+  );
+  const evidence = cited.length ? cited : topChunks;
+
+  const evidenceTerms = new Set(evidence.flatMap(chunk => tokenize(chunk.text)));
+  const termCoverage = questionTerms.length
+    ? questionTerms.filter(t => evidenceTerms.has(t)).length / questionTerms.length
+    : 0;
+  const similarity = Math.max(0, ...evidence.map(chunk => chunk.similarity || 0));
+  const retrieval = 0.6 * termCoverage + 0.4 * Math.min(1, similarity * 2);
+
+  // Small talk cites nothing and matches nothing; there is no answer to score.
+  if (!citations.length && termCoverage === 0) return { level: null, score: null };
+
+  const sentences = (answer || '').split(/(?<=[.!?])\s+/).filter(sentence => sentence.trim());
+  const citedSentences = sentences.filter(sentence => /\[\d+\]/.test(sentence)).length;
+  const coverage = !citations.length
+    ? 0
+    : citedSentences
+      ? citedSentences / sentences.length
+      : Math.min(1, citations.length / (sentences.length || 1));
+
+  const score = Math.round((0.5 * retrieval + 0.5 * coverage) * 100) / 100;
+  const level = score >= 0.7 ? 'High' : score >= 0.4 ? 'Medium' : 'Low';
+  return { level, score };
+};
+
+const LEVEL_DOWNGRADE = { High: 'Medium', Medium: 'Low', Low: 'Low' };
+
+// Checks every cited snippet against the retrieved chunks. Answers whose
+// citations all fail are replaced by a refusal; partially verified and
+// uncited answers keep their text but lose a confidence level.
+const verifyAnswer = ({ question, answer, aiCitations, topChunks, folderName }) => {
+  const citations = verifyCitations(buildCitations(aiCitations, topChunks), topChunks);
+  const verification = verificationStatus(citations);
+
+  if (verification === 'failed') {
+    return {
+      reply: `I couldn't verify this answer against your notes for ${folderName || "Subject"}, so I won't present it as fact. Try rephrasing the question or check the retrieved passages.`,
+      citations: [],
+      confidence: { level: 'Low', score: 0 },
+      verification
+    };
+  }
 
-  const paragraphs = text.split(/\n\s*\n/);
-  let current = '';
+  const confidence = computeConfidence({ question, answer, topChunks, citations: citations.filter(c => c.verified) });
+  if (verification !== 'verified' && confidence.level) confidence.level = LEVEL_DOWNGRADE[confidence.level];
+  return { reply: answer, citations, confidence, verification };
+};
 
-  for (const p of paragraphs) {
-    const paragraph = p.trim();
-    if (!paragraph) continue;
-    if ((current + '\n\n' + paragraph).length <= maxChars) {
-      current = current ? current + '\n\n' + paragraph : paragraph;
-    } else {
-      if (current) chunks.push(current);
-      if (paragraph.length <= maxChars) {
-        current = paragraph;
-      } else {
-        let start = 0;
-        while (start < paragraph.length) {
-          chunks.push(paragraph.slice(start, start + maxChars));
-          start += maxChars;
-        }
-        current = '';
-      }
+// Study material cites notes with quoted evidence; each quote is checked
+// against the subject's chunks and the question marked verified if any holds.
+const verifyStudyCitations = (items, chunks) => (items || []).map(item => {
+  const citations = verifyCitations(
+    (item.citations || []).map(c => typeof c === 'string'
+      ? { id: c, snippet: '' }
+      : { id: c.id, snippet: c.evidence_snippet || '' }),
+    chunks
+  );
+  return { ...item, citations, verified: citations.some(c => c.verified) };
+});
+
+// The retrieved passages an answer was generated from, for "show retrieved passages".
+const toPassages = (topChunks) => topChunks.map(chunk => ({
+  noteId: chunk.noteId,
+  noteTitle: chunk.noteTitle,
+  chunkIndex: chunk.chunkIndex,
+  section: chunk.section,
+  page: chunk.page,
+  start: chunk.start,
+  end: chunk.end,
+  text: chunk.text.length > 400 ? `${chunk.text.slice(0, 400)}…` : chunk.text,
+  score: Math.round(chunk.score * 100) / 100
+}));
+
+// Maps the model's numbered citations back onto the retrieved chunks, narrowing
+// the offsets to the quoted snippet when it can be located in the chunk.
+// Citations that match no chunk are kept, unverified, so they still count
+// against the answer.
+const buildCitations = (aiCitations, topChunks) => {
+  if (!Array.isArray(aiCitations)) return [];
+  const citations = [];
+  for (const cit of aiCitations) {
+    const snippet = (cit && cit.evidence_snippet ? String(cit.evidence_snippet) : '').trim();
+    const idx = parseInt(String(cit && cit.id).replace(/[^0-9]/g, ''), 10) - 1;
+    let chunk = topChunks[idx];
+    if (!chunk && snippet) {
+      chunk = topChunks.find(c => c.text.toLowerCase().includes(snippet.toLowerCase()));
+    }
+    if (!chunk) {
+      citations.push({ id: String(citations.length + 1), noteId: null, noteTitle: null, snippet, verified: false });
+      continue;
     }
+
+    let start = chunk.start;
+    let end = chunk.end;
+    const pos = snippet ? chunk.text.toLowerCase().indexOf(snippet.toLowerCase()) : -1;
+    if (pos !== -1) {
+      start = chunk.start + pos;
+      end = start + snippet.length;
+    }
+
+    citations.push({
+      id: String(citations.length + 1),
+      noteId: chunk.noteId,
+      noteTitle: chunk.noteTitle,
+      chunkIndex: chunk.chunkIndex,
+      section: chunk.section,
+      page: chunk.page,
+      start,
+      end,
+      snippet: snippet || chunk.text.slice(0, 200)
+    });
   }
-  if (current) chunks.push(current);
-  return chunks;
+  return citations;
 };
 
-const tokenize = (text) =>
-  (text || '')
-    .toLowerCase()
-    .replace(/[^a-z0-9\s]/g, ' ')
-    .split(/\s+/)
-    .filter(Boolean);
+const CITATIONS_DELIMITER = '<<<CITATIONS>>>';
 
-const scoreChunk = (question, chunkTextValue) => {
-  const qTokens = new Set(tokenize(question));
-  const cTokens = tokenize(chunkTextValue);
-  let score = 0;
-  for (const t of cTokens) {
-    if (qTokens.has(t)) score += 1;
+const JSON_RESPONSE_FORMAT = `6) RESPONSE FORMAT (STRICT JSON)
+Return your response in this JSON format:
+{
+  "spoken_answer": "Refusal message or clear explanation",
+  "citations": [
+    {
+      "id": "1",
+      "evidence_snippet": "Quote from text"
+    }
+  ],
+  "confidence": "High/Medium/Low"
+}`;
+
+const STREAMING_RESPONSE_FORMAT = `6) RESPONSE FORMAT (STREAMED)
+Write the refusal message or explanation as plain text first, with inline citation numbers like [1].
+Then output a line containing only ${CITATIONS_DELIMITER} followed by this JSON object:
+{
+  "citations": [
+    {
+      "id": "1",
+      "evidence_snippet": "Quote from text"
+    }
+  ],
+  "confidence": "High/Medium/Low"
+}
+For a refusal, the citations array must be empty.`;
+
+const buildTeacherPrompt = ({ folderName, contextText, historyMessages, message, streaming = false }) => `You are "AskMyNotes AI Assistant", a strict academic tutor that answers ONLY using the user's uploaded notes for a specific subject.
+
+SYSTEM RULES (STRICTLY ENFORCED):
+
+1) SUBJECT SCOPING & REFUSAL
+For any inquiry related to the subject matter, you must answer strictly using content from the provided notes. If the answer is not found in the notes for the subject "${folderName || "Subject"}", you must respond EXACTLY with:
+"Not found in your notes for ${folderName || "Subject"}."
+Do NOT explain why. Do NOT offer general knowledge.
+
+2) EXCEPTIONS (CASUAL TALK & IDENTITY)
+Allow casual greetings (e.g., "Hello", "How are you?"), identity questions (e.g., "Who are you?", "What is your purpose?"), and technical tests (e.g., "microphone check", "testing 123") to be responded to naturally and briefly. You are "AskMyNotes AI Assistant", a teaching assistant for the user's notes. Do NOT refuse these simple non-academic queries.
+
+3) ABSOLUTE RIGIDITY (ACADEMIC)
+Once a user asks an academic or subject-related question, you must stay strictly within the notes. You are prohibited from using any outside knowledge.
+
+4) NO HALLUCINATIONS
+If the notes mention a topic but don't answer the specific question, you must still refuse.
+
+5) EVIDENCE REQUIREMENT
+If the answer IS in the notes:
+- Provide a clear, teacher-like explanation.
+- Include numbered citations [1], [2], etc. Each passage in notes_context starts with its source number in square brackets; use that number as the citation id.
+- Include direct supporting evidence snippets, quoted verbatim from the cited passage.
+- Provide a confidence score.
+
+${streaming ? STREAMING_RESPONSE_FORMAT : JSON_RESPONSE_FORMAT}
+
+7) VOICE-READY OUTPUT
+- Avoid markdown symbols (except in citations section).
+- Keep the answer natural for text-to-speech.
+
+INPUT PROVIDED TO YOU THIS TURN:
+{
+  "subject": "${folderName || "Subject"}",
+  "notes_context": ${JSON.stringify(contextText || "No notes available.")},
+  "conversation_history": ${JSON.stringify(historyMessages.slice(-3).map(m => m.role + ': ' + m.content).join('\n'))},
+  "current_question": ${JSON.stringify(message)}
+}
+
+${streaming ? `Write the answer, then ${CITATIONS_DELIMITER} and the JSON object.` : 'OUTPUT ONLY VALID JSON.'}`;
+
+// Loads the caller's thread in this folder, or starts a new one titled after
+// the first question. Returns null when the thread id or folder does not
+// belong to them.
+const resolveChatThread = async (userId, folderId, threadId, message) => {
+  if (threadId) {
+    const result = await pool.query(
+      'SELECT * FROM chat_threads WHERE id = $1 AND user_id = $2 AND folder_id = $3',
+      [threadId, userId, folderId]
+    );
+    return result.rows[0] || null;
   }
-  return score;
+  if (!(await ownsFolder(userId, folderId))) return null;
+
+  const title = message.length > 60 ? `${message.slice(0, 57)}...` : message;
+  const result = await pool.query(
+    'INSERT INTO chat_threads (user_id, folder_id, title) VALUES ($1, $2, $3) RETURNING *',
+    [userId, folderId, title]
+  );
+  return result.rows[0];
+};
+
+// Replies saved in place of an answer, so a question is never left unanswered
+// in its thread
+const TEACHER_UNAVAILABLE_REPLY = 'I cannot answer right now. Please add your `OPENAI_API_KEY` to the `backend/.env` file and restart the server.';
+const TEACHER_FAILED_REPLY = 'Failed to generate response correctly.';
+
+const saveChatMessage = async (threadId, role, content, { citations = [], confidence = null, confidenceScore = null, passages = [], verification = null } = {}) => {
+  await pool.query(
+    'INSERT INTO chat_messages (thread_id, role, content, citations, confidence, confidence_score, passages, verification) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)',
+    [threadId, role, content, JSON.stringify(citations), confidence, confidenceScore, JSON.stringify(passages), verification]
+  );
+  await pool.query('UPDATE chat_threads SET updated_at = CURRENT_TIMESTAMP WHERE id = $1', [threadId]);
 };
 
-const computeConfidence = (topScore) => {
-  if (topScore >= 5) return 'High';
-  if (topScore >= 2) return 'Medium';
-  if (topScore >= 1) return 'Low';
-  return 'Low';
+// Retrieves the passages for a Teacher Mode question and the prompt context
+// built from them; shared by the JSON and streaming chat endpoints.
+const prepareTeacherContext = async (userId, folderId, message, threadId) => {
+  const chunks = await loadFolderChunks(userId, folderId);
+
+  let topChunks = [];
+  if (chunks.length > 0) {
+    const [queryEmbedding] = await embedder.embed([message]);
+    topChunks = rankChunks(message, queryEmbedding, chunks, 5);
+    // Notes that the best passages' notes link to compete for the same places
+    const inScope = new Set(chunks.map(chunk => chunk.noteId));
+    const linked = (await loadLinkedChunks(userId, folderId, [...new Set(topChunks.map(chunk => chunk.noteId))]))
+      .filter(chunk => !inScope.has(chunk.noteId));
+    if (linked.length) topChunks = rankChunks(message, queryEmbedding, [...chunks, ...linked], 5);
+  }
+
+  const contextText = topChunks.map((chunk, i) => `[${i + 1}] ${chunkLabel(chunk)}\n${chunk.text}`).join('\n\n---\n\n');
+
+  const historyRes = await pool.query(
+    'SELECT role, content FROM chat_messages WHERE thread_id = $1 ORDER BY created_at DESC LIMIT 10',
+    [threadId]
+  );
+  const historyMessages = historyRes.rows.reverse().map(msg => ({
+    role: msg.role === 'model' ? 'assistant' : 'user',
+    content: msg.content
+  }));
+
+  return { topChunks, contextText, historyMessages };
 };
 
 const authenticateToken = (req, res, next) => {
@@ -105,10 +338,27 @@ const authenticateToken = (req, res, next) => {
   });
 };
 
+// Trash older than the retention period is deleted for good, checked hourly.
+const TRASH_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+const purgeExpiredTrash = async () => {
+  try {
+    await removeSourceFiles(await purgeTrash({ olderThanDays: TRASH_RETENTION_DAYS }));
+  } catch (err) {
+    console.error('Trash purge error:', err);
+  }
+};
+
 app.listen(PORT, async () => {
   console.log(`Server running on port ${PORT}`);
   if (process.env.DATABASE_URL) {
     await initDb();
+    const queued = await backfillIndex(embedder);
+    if (queued) console.log(`Queued ${queued} note(s) for indexing`);
+    const linked = await backfillLinks();
+    if (linked) console.log(`Recorded links for ${linked} note(s)`);
+    purgeExpiredTrash();
+    setInterval(purgeExpiredTrash, TRASH_PURGE_INTERVAL_MS).unref();
   } else {
     console.warn('DATABASE_URL is not set. Database not initialized.');
   }
@@ -213,7 +463,7 @@ app.get('/api/auth/google/callback', async (req, res) => {
 app.get('/api/folders', authenticateToken, async (req, res) => {
   try {
     const userId = req.user.userId;
-    const result = await pool.query('SELECT * FROM folders WHERE user_id = $1 ORDER BY created_at ASC', [userId]);
+    const result = await pool.query('SELECT * FROM folders WHERE user_id = $1 AND deleted_at IS NULL ORDER BY position ASC, created_at ASC', [userId]);
     res.json(result.rows);
   } catch (err) {
     res.status(500).json({ error: 'Server error' });
@@ -223,16 +473,20 @@ app.get('/api/folders', authenticateToken, async (req, res) => {
 app.post('/api/folders', authenticateToken, async (req, res) => {
   try {
     const userId = req.user.userId;
-    const { name } = req.body;
+    const { name, parent_id = null } = req.body;
 
-    const countResult = await pool.query('SELECT COUNT(*) FROM folders WHERE user_id = $1', [userId]);
-    if (parseInt(countResult.rows[0].count, 10) >= 3) {
-      return res.status(403).json({ error: 'Maximum folder limit (3) reached' });
+    if (!name || !name.trim()) return res.status(400).json({ error: 'Folder name is required' });
+    if (parent_id) {
+      const parentRes = await pool.query('SELECT id FROM folders WHERE id = $1 AND user_id = $2 AND deleted_at IS NULL', [parent_id, userId]);
+      if (parentRes.rows.length === 0) return res.status(404).json({ error: 'Parent folder not found' });
     }
 
+    // New folders go last among their siblings
     const result = await pool.query(
-      'INSERT INTO folders (user_id, name) VALUES ($1, $2) RETURNING *',
-      [userId, name]
+      `INSERT INTO folders (user_id, name, parent_id, position)
+       VALUES ($1, $2, $3, (SELECT COALESCE(MAX(position) + 1, 0) FROM folders WHERE user_id = $1 AND parent_id IS NOT DISTINCT FROM $3))
+       RETURNING *`,
+      [userId, name.trim(), parent_id]
     );
     res.status(201).json(result.rows[0]);
   } catch (err) {
@@ -245,18 +499,100 @@ app.delete('/api/folders/:id', authenticateToken, async (req, res) => {
     const userId = req.user.userId;
     const folderId = req.params.id;
 
-    await pool.query('DELETE FROM folders WHERE id = $1 AND user_id = $2', [folderId, userId]);
-    res.json({ message: 'Folder deleted' });
+    // Topics below the folder and their notes go to the trash with it
+    if (!(await trashFolder(userId, folderId))) return res.status(404).json({ error: 'Folder not found' });
+    res.json({ message: 'Folder moved to trash', trashId: folderId });
+  } catch (err) {
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.put('/api/folders/:id', authenticateToken, async (req, res) => {
+  try {
+    const { name } = req.body;
+    if (!name || !name.trim()) return res.status(400).json({ error: 'Folder name is required' });
+
+    const result = await pool.query(
+      'UPDATE folders SET name = $1 WHERE id = $2 AND user_id = $3 AND deleted_at IS NULL RETURNING *',
+      [name.trim(), req.params.id, req.user.userId]
+    );
+    if (result.rows.length === 0) return res.status(404).json({ error: 'Folder not found' });
+    res.json(result.rows[0]);
+  } catch (err) {
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// Drag-and-drop: places the folder at `position` among the children of
+// `parent_id` (null makes it a subject). Returns the updated folder list.
+app.put('/api/folders/:id/move', authenticateToken, async (req, res) => {
+  try {
+    const userId = req.user.userId;
+    const { parent_id = null, position } = req.body;
+    if (!Number.isInteger(position) || position < 0) return res.status(400).json({ error: 'position must be a non-negative integer' });
+
+    const { status } = await moveFolder(userId, req.params.id, parent_id, position);
+    if (status === 404) return res.status(404).json({ error: 'Folder not found' });
+    if (status === 400) return res.status(400).json({ error: 'A folder cannot be moved into itself' });
+
+    const result = await pool.query('SELECT * FROM folders WHERE user_id = $1 AND deleted_at IS NULL ORDER BY position ASC, created_at ASC', [userId]);
+    res.json(result.rows);
+  } catch (err) {
+    console.error('Folder move error:', err);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+
+// Trash: entries are the notes and folders the user deleted, restorable until
+// they are purged after the retention period.
+const TRASH_KINDS = ['notes', 'folders'];
+
+app.get('/api/trash', authenticateToken, async (req, res) => {
+  try {
+    res.json(await listTrash(req.user.userId));
+  } catch (err) {
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.post('/api/trash/:kind/:id/restore', authenticateToken, async (req, res) => {
+  try {
+    if (!TRASH_KINDS.includes(req.params.kind)) return res.status(404).json({ error: 'Not found in the trash' });
+    await restoreTrashEntry(req.user.userId, req.params.kind, req.params.id);
+    res.json({ message: 'Restored' });
+  } catch (err) {
+    if (err.status) return res.status(err.status).json({ error: err.message });
+    console.error('Trash restore error:', err);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.delete('/api/trash/:kind/:id', authenticateToken, async (req, res) => {
+  try {
+    if (!TRASH_KINDS.includes(req.params.kind)) return res.status(404).json({ error: 'Not found in the trash' });
+    await removeSourceFiles(await purgeTrash({ userId: req.user.userId, entryIds: [req.params.id] }));
+    res.json({ message: 'Deleted permanently' });
   } catch (err) {
+    console.error('Trash delete error:', err);
     res.status(500).json({ error: 'Server error' });
   }
 });
 
+app.delete('/api/trash', authenticateToken, async (req, res) => {
+  try {
+    await removeSourceFiles(await purgeTrash({ userId: req.user.userId }));
+    res.json({ message: 'Trash emptied' });
+  } catch (err) {
+    console.error('Trash empty error:', err);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
 
 app.get('/api/notes', authenticateToken, async (req, res) => {
   try {
     const userId = req.user.userId;
-    const result = await pool.query('SELECT * FROM notes WHERE user_id = $1 ORDER BY updated_at DESC', [userId]);
+    const result = await pool.query('SELECT * FROM notes WHERE user_id = $1 AND deleted_at IS NULL ORDER BY updated_at DESC', [userId]);
     res.json(result.rows);
   } catch (err) {
     res.status(500).json({ error: 'Server error' });
@@ -268,180 +604,581 @@ app.post('/api/notes', authenticateToken, async (req, res) => {
     const userId = req.user.userId;
     const { folder_id, title, content } = req.body;
 
+    if (!folder_id || !(await ownsFolder(userId, folder_id))) return res.status(404).json({ error: 'Folder not found' });
+
     const result = await pool.query(
       'INSERT INTO notes (user_id, folder_id, title, content) VALUES ($1, $2, $3, $4) RETURNING *',
       [userId, folder_id, title, content]
     );
+    queueReindex(result.rows[0], embedder);
     res.status(201).json(result.rows[0]);
   } catch (err) {
     res.status(500).json({ error: 'Server error' });
   }
 });
 
+// Edits are saved continuously, so the replaced state is kept as a revision at
+// most once per interval; restores always keep one.
+const REVISION_INTERVAL_MINUTES = 10;
+const MAX_REVISIONS_PER_NOTE = 50;
+
+// Writes a new version of a note. When `version` is given it must match the
+// stored one, otherwise { status: 409, note } carries the newer server copy.
+const updateNoteVersion = async (userId, noteId, { title, content, version }, { forceRevision = false } = {}) => {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const currentRes = await client.query('SELECT * FROM notes WHERE id = $1 AND user_id = $2 AND deleted_at IS NULL FOR UPDATE', [noteId, userId]);
+    const current = currentRes.rows[0];
+    if (!current) {
+      await client.query('ROLLBACK');
+      return { status: 404 };
+    }
+    if (version != null && Number(version) !== current.version) {
+      await client.query('ROLLBACK');
+      return { status: 409, note: current };
+    }
+    if (current.title === title && current.content === content) {
+      await client.query('COMMIT');
+      return { status: 200, note: current, previousTitle: current.title };
+    }
+
+    if (current.title || current.content) {
+      const recent = forceRevision ? [] : (await client.query(
+        `SELECT 1 FROM note_revisions WHERE note_id = $1 AND created_at > NOW() - make_interval(mins => $2) LIMIT 1`,
+        [noteId, REVISION_INTERVAL_MINUTES]
+      )).rows;
+      if (recent.length === 0) {
+        await client.query(
+          `INSERT INTO note_revisions (note_id, user_id, version, title, content, saved_at) VALUES ($1, $2, $3, $4, $5, $6)`,
+          [noteId, userId, current.version, current.title, current.content, current.updated_at]
+        );
+        await client.query(
+          `DELETE FROM note_revisions WHERE note_id = $1 AND id NOT IN (
+             SELECT id FROM note_revisions WHERE note_id = $1 ORDER BY created_at DESC LIMIT $2
+           )`,
+          [noteId, MAX_REVISIONS_PER_NOTE]
+        );
+      }
+    }
+
+    // Title-only edits keep the index; content changes mark the note stale.
+    const result = await client.query(
+      `UPDATE notes SET title = $1, content = $2, updated_at = CURRENT_TIMESTAMP, version = version + 1,
+         index_status = CASE WHEN content_hash IS DISTINCT FROM $4 THEN 'stale' ELSE index_status END
+       WHERE id = $3 RETURNING *`,
+      [title, content, noteId, hashContent(content)]
+    );
+    await client.query('COMMIT');
+    return { status: 200, note: result.rows[0], previousTitle: current.title };
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+};
+
+const CONFLICT_MESSAGE = 'This note was changed in another tab or device.';
+
+// [[links]] to a renamed note follow it. The rewritten notes go back to the
+// client with the save so open copies pick up the new text.
+const relinkAfterRename = async (userId, { note, previousTitle }) => {
+  if (note.title === previousTitle) return [];
+  const relinked = await relinkNotes(userId, note, previousTitle);
+  for (const linkingNote of relinked) queueReindex(linkingNote, embedder);
+  return relinked.map(({ id, content, version, updated_at, index_status }) => ({ id, content, version, updated_at, index_status }));
+};
+
 app.put('/api/notes/:id', authenticateToken, async (req, res) => {
   try {
     const userId = req.user.userId;
     const noteId = req.params.id;
-    const { title, content } = req.body;
+    const { title, content, version } = req.body;
+
+    const outcome = await updateNoteVersion(userId, noteId, { title, content, version });
+    if (outcome.status === 404) return res.status(404).json({ error: 'Note not found' });
+    if (outcome.status === 409) return res.status(409).json({ error: CONFLICT_MESSAGE, note: outcome.note });
+
+    const note = outcome.note;
+    if (note.index_status === 'stale') queueReindex(note, embedder);
+    res.json({ ...note, relinked: await relinkAfterRename(userId, outcome) });
+  } catch (err) {
+    res.status(500).json({ error: 'Server error' });
+  }
+});
 
+app.get('/api/notes/:id/revisions', authenticateToken, async (req, res) => {
+  try {
     const result = await pool.query(
-      'UPDATE notes SET title = $1, content = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $3 AND user_id = $4 RETURNING *',
-      [title, content, noteId, userId]
+      `SELECT r.id, r.version, r.title, r.saved_at, r.created_at, LENGTH(COALESCE(r.content, '')) AS length
+       FROM note_revisions r JOIN notes n ON n.id = r.note_id
+       WHERE r.note_id = $1 AND r.user_id = $2 AND n.deleted_at IS NULL
+       ORDER BY r.created_at DESC`,
+      [req.params.id, req.user.userId]
     );
+    res.json(result.rows);
+  } catch (err) {
+    res.status(500).json({ error: 'Server error' });
+  }
+});
 
-    if (result.rows.length === 0) return res.status(404).json({ error: 'Note not found' });
+app.get('/api/notes/:id/revisions/:revisionId', authenticateToken, async (req, res) => {
+  try {
+    const result = await pool.query(
+      `SELECT r.* FROM note_revisions r JOIN notes n ON n.id = r.note_id
+       WHERE r.id = $1 AND r.note_id = $2 AND r.user_id = $3 AND n.deleted_at IS NULL`,
+      [req.params.revisionId, req.params.id, req.user.userId]
+    );
+    if (result.rows.length === 0) return res.status(404).json({ error: 'Revision not found' });
     res.json(result.rows[0]);
   } catch (err) {
     res.status(500).json({ error: 'Server error' });
   }
 });
 
-app.delete('/api/notes/:id', authenticateToken, async (req, res) => {
+// Restoring is itself a new version, so the state it replaces stays in history.
+app.post('/api/notes/:id/revisions/:revisionId/restore', authenticateToken, async (req, res) => {
   try {
     const userId = req.user.userId;
     const noteId = req.params.id;
+    const revisionRes = await pool.query(
+      `SELECT r.* FROM note_revisions r JOIN notes n ON n.id = r.note_id
+       WHERE r.id = $1 AND r.note_id = $2 AND r.user_id = $3 AND n.deleted_at IS NULL`,
+      [req.params.revisionId, noteId, userId]
+    );
+    const revision = revisionRes.rows[0];
+    if (!revision) return res.status(404).json({ error: 'Revision not found' });
+
+    const outcome = await updateNoteVersion(
+      userId, noteId,
+      { title: revision.title, content: revision.content, version: req.body.version },
+      { forceRevision: true }
+    );
+    if (outcome.status === 404) return res.status(404).json({ error: 'Note not found' });
+    if (outcome.status === 409) return res.status(409).json({ error: CONFLICT_MESSAGE, note: outcome.note });
 
-    await pool.query('DELETE FROM notes WHERE id = $1 AND user_id = $2', [noteId, userId]);
-    res.json({ message: 'Note deleted' });
+    if (outcome.note.index_status === 'stale') queueReindex(outcome.note, embedder);
+    res.json({ ...outcome.note, relinked: await relinkAfterRename(userId, outcome) });
   } catch (err) {
     res.status(500).json({ error: 'Server error' });
   }
 });
 
-app.post('/api/notes/upload', authenticateToken, upload.single('file'), async (req, res) => {
+app.delete('/api/notes/:id', authenticateToken, async (req, res) => {
   try {
     const userId = req.user.userId;
-    const { folder_id } = req.body;
-    const file = req.file;
+    const noteId = req.params.id;
 
-    if (!file || !folder_id) {
-      return res.status(400).json({ error: 'File and folder_id are required' });
-    }
+    const trashed = await trashNotes(userId, [noteId]);
+    if (trashed.length === 0) return res.status(404).json({ error: 'Note not found' });
+    res.json({ message: 'Note moved to trash', trashId: noteId });
+  } catch (err) {
+    res.status(500).json({ error: 'Server error' });
+  }
+});
 
-    let content = '';
-    const title = file.originalname;
+// Bulk note actions from the multi-select list. Every note must belong to the
+// user and sit in one of their folders, and so must the destination folder;
+// otherwise nothing is changed.
+const MAX_BATCH_NOTES = 500;
 
-    if (file.mimetype === 'application/pdf') {
-      const data = await pdfParse(file.buffer);
-      content = data.text;
-    } else if (file.mimetype === 'text/plain' || title.endsWith('.txt')) {
-      content = file.buffer.toString('utf-8');
-    } else {
-      return res.status(400).json({ error: 'Unsupported file type. Please upload a PDF or TXT file.' });
-    }
+const batchNoteIds = (body) => {
+  const { noteIds } = body || {};
+  if (!Array.isArray(noteIds) || noteIds.length === 0 || noteIds.some(id => typeof id !== 'string')) return null;
+  if (noteIds.length > MAX_BATCH_NOTES) return null;
+  return [...new Set(noteIds)];
+};
 
-    const result = await pool.query(
-      'INSERT INTO notes (user_id, folder_id, title, content) VALUES ($1, $2, $3, $4) RETURNING *',
-      [userId, folder_id, title, content]
+const loadOwnedNotes = async (userId, noteIds, db = pool) => {
+  const result = await db.query(
+    `SELECT n.* FROM notes n
+     JOIN folders f ON f.id = n.folder_id AND f.user_id = $1 AND f.deleted_at IS NULL
+     WHERE n.user_id = $1 AND n.id = ANY($2::uuid[]) AND n.deleted_at IS NULL`,
+    [userId, noteIds]
+  );
+  return result.rows.length === noteIds.length ? result.rows : null;
+};
+
+const ownsFolder = async (userId, folderId, db = pool) =>
+  (await db.query('SELECT 1 FROM folders WHERE id = $1 AND user_id = $2 AND deleted_at IS NULL', [folderId, userId])).rows.length > 0;
+
+// Moving keeps the existing chunks (re-pointed at the new folder) so both
+// subjects' retrieval is right at once, then re-indexes the moved notes.
+app.post('/api/notes/batch/move', authenticateToken, async (req, res) => {
+  const userId = req.user.userId;
+  const noteIds = batchNoteIds(req.body);
+  const { folderId } = req.body;
+  if (!noteIds || !folderId) return res.status(400).json({ error: `noteIds (1-${MAX_BATCH_NOTES}) and folderId are required` });
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    if (!(await ownsFolder(userId, folderId, client)) || !(await loadOwnedNotes(userId, noteIds, client))) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({ error: 'Notes or folder not found' });
+    }
+    const result = await client.query(
+      `UPDATE notes SET folder_id = $1, index_status = 'stale', content_hash = NULL
+       WHERE user_id = $2 AND id = ANY($3::uuid[]) RETURNING *`,
+      [folderId, userId, noteIds]
     );
+    await client.query('UPDATE note_chunks SET folder_id = $1 WHERE user_id = $2 AND note_id = ANY($3::uuid[])', [folderId, userId, noteIds]);
+    await client.query('COMMIT');
 
-    res.status(201).json(result.rows[0]);
+    for (const note of result.rows) queueReindex(note, embedder);
+    res.json(result.rows);
   } catch (err) {
-    console.error('Upload Error:', err);
-    res.status(500).json({ error: 'Failed to process file' });
+    await client.query('ROLLBACK');
+    console.error('Batch move error:', err);
+    res.status(500).json({ error: 'Server error' });
+  } finally {
+    client.release();
   }
 });
 
-app.post('/api/chat', authenticateToken, async (req, res) => {
-  try {
-    const userId = req.user.userId;
-    const { message, folderId, folderName, contextNotes = [] } = req.body || {};
-
-    if (!message || !folderId) {
-      return res.status(400).json({ error: 'message and folderId are required' });
-    }
+// Copies are new notes with the same title and text; an original upload is
+// duplicated too, so each copy can be deleted on its own.
+app.post('/api/notes/batch/copy', authenticateToken, async (req, res) => {
+  const userId = req.user.userId;
+  const noteIds = batchNoteIds(req.body);
+  const { folderId } = req.body;
+  if (!noteIds || !folderId) return res.status(400).json({ error: `noteIds (1-${MAX_BATCH_NOTES}) and folderId are required` });
 
-    const notesRes = await pool.query(
-      'SELECT id, title, content FROM notes WHERE user_id = $1 AND folder_id = $2',
-      [userId, folderId]
-    );
-    const notes = notesRes.rows || [];
+  const savedKeys = [];
+  const client = await pool.connect();
+  try {
+    const notes = await loadOwnedNotes(userId, noteIds);
+    if (!notes || !(await ownsFolder(userId, folderId))) return res.status(404).json({ error: 'Notes or folder not found' });
 
-    const chunks = [];
+    const copies = [];
+    await client.query('BEGIN');
     for (const note of notes) {
-      const baseText = `${note.title || 'Untitled Note'}\n\n${note.content || ''}`;
-      const noteChunks = chunkText(baseText);
-      noteChunks.forEach((text, idx) => {
-        chunks.push({
-          noteTitle: note.title || 'Untitled Note',
-          chunkIndex: idx + 1,
-          text
-        });
-      });
+      let source = null;
+      if (note.source_key) {
+        try {
+          source = await storage.read(note.source_key);
+        } catch (err) {
+          // A missing original is copied as a plain note
+          if (err.code !== 'ENOENT') throw err;
+        }
+      }
+      const sourceKey = source ? await storage.save(source) : null;
+      if (sourceKey) savedKeys.push(sourceKey);
+      const result = await client.query(
+        `INSERT INTO notes (user_id, folder_id, title, content, source_key, source_name, source_type, source_size)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8) RETURNING *`,
+        sourceKey
+          ? [userId, folderId, note.title, note.content, sourceKey, note.source_name, note.source_type, note.source_size]
+          : [userId, folderId, note.title, note.content, null, null, null, null]
+      );
+      copies.push(result.rows[0]);
     }
+    await client.query('COMMIT');
 
-    let topChunks = [];
-    if (chunks.length > 0) {
-      const scoredChunks = chunks.map(chunk => ({
-        ...chunk,
-        score: scoreChunk(message, chunk.text)
-      }));
-      scoredChunks.sort((a, b) => b.score - a.score);
-      topChunks = scoredChunks.slice(0, 5);
-    }
+    for (const note of copies) queueReindex(note, embedder);
+    res.status(201).json(copies);
+  } catch (err) {
+    await client.query('ROLLBACK');
+    await removeSourceFiles(savedKeys);
+    console.error('Batch copy error:', err);
+    res.status(500).json({ error: 'Server error' });
+  } finally {
+    client.release();
+  }
+});
 
-    const contextText = topChunks.map(chunk => `[Citation: ${chunk.noteTitle}, Chunk ${chunk.chunkIndex}]\n${chunk.text}`).join('\n\n---\n\n');
+app.post('/api/notes/batch/delete', authenticateToken, async (req, res) => {
+  try {
+    const userId = req.user.userId;
+    const noteIds = batchNoteIds(req.body);
+    if (!noteIds) return res.status(400).json({ error: `noteIds (1-${MAX_BATCH_NOTES}) are required` });
+    if (!(await loadOwnedNotes(userId, noteIds))) return res.status(404).json({ error: 'Notes not found' });
 
-    const historyMessages = contextNotes.slice(-10).map(msg => ({
-      role: msg.role === 'model' ? 'assistant' : 'user',
-      content: msg.content
-    }));
+    res.json({ deleted: await trashNotes(userId, noteIds) });
+  } catch (err) {
+    console.error('Batch delete error:', err);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
 
-    if (!openai) {
-      return res.json({ reply: 'I cannot answer right now. Please add your `OPENAI_API_KEY` to the `backend/.env` file and restart the server.' });
+// A zip of markdown files laid out by subject and topic folders.
+app.post('/api/notes/batch/export', authenticateToken, async (req, res) => {
+  try {
+    const userId = req.user.userId;
+    const noteIds = batchNoteIds(req.body);
+    if (!noteIds) return res.status(400).json({ error: `noteIds (1-${MAX_BATCH_NOTES}) are required` });
+    const notes = await loadOwnedNotes(userId, noteIds);
+    if (!notes) return res.status(404).json({ error: 'Notes not found' });
+
+    const foldersRes = await pool.query('SELECT id, parent_id, name FROM folders WHERE user_id = $1', [userId]);
+    const folders = new Map(foldersRes.rows.map(f => [f.id, f]));
+    const safeName = (name) => (name || '').replace(/[\\/:*?"<>|\x00-\x1f]/g, '_').trim() || 'Untitled';
+    const folderDir = (folderId) => {
+      const names = [];
+      for (let f = folders.get(folderId); f && names.length <= folders.size; f = folders.get(f.parent_id)) names.unshift(safeName(f.name));
+      return names.join('/');
+    };
+
+    const zip = new JSZip();
+    const used = new Set();
+    for (const note of notes) {
+      const base = `${folderDir(note.folder_id)}/${safeName(note.title).replace(/\.(md|markdown|txt)$/i, '')}`;
+      let file = `${base}.md`;
+      for (let n = 2; used.has(file.toLowerCase()); n++) file = `${base} (${n}).md`;
+      used.add(file.toLowerCase());
+      zip.file(file, note.content || '');
     }
 
-    const systemPrompt = `You are "AskMyNotes AI Assistant", a strict academic tutor that answers ONLY using the user's uploaded notes for a specific subject.
+    const archive = await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', 'attachment; filename="notes.zip"');
+    res.send(archive);
+  } catch (err) {
+    console.error('Batch export error:', err);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
 
-SYSTEM RULES (STRICTLY ENFORCED):
+// Ranked full-text search. folderId limits it to that subject or topic and
+// the topics below it; without one every subject is searched.
+const SEARCH_DATE = /^\d{4}-\d{2}-\d{2}$/;
 
-1) SUBJECT SCOPING & REFUSAL
-For any inquiry related to the subject matter, you must answer strictly using content from the provided notes. If the answer is not found in the notes for the subject "${folderName || "Subject"}", you must respond EXACTLY with:
-"Not found in your notes for ${folderName || "Subject"}."
-Do NOT explain why. Do NOT offer general knowledge.
+// A real calendar date, so 2024-02-31 is refused here rather than by Postgres
+const isSearchDate = (date) => {
+  if (typeof date !== 'string' || !SEARCH_DATE.test(date)) return false;
+  const parsed = new Date(`${date}T00:00:00Z`);
+  return !Number.isNaN(parsed.getTime()) && parsed.toISOString().startsWith(date);
+};
 
-2) EXCEPTIONS (CASUAL TALK & IDENTITY)
-Allow casual greetings (e.g., "Hello", "How are you?"), identity questions (e.g., "Who are you?", "What is your purpose?"), and technical tests (e.g., "microphone check", "testing 123") to be responded to naturally and briefly. You are "AskMyNotes AI Assistant", a teaching assistant for the user's notes. Do NOT refuse these simple non-academic queries.
+app.get('/api/search', authenticateToken, async (req, res) => {
+  try {
+    const userId = req.user.userId;
+    const { q, folderId, type, from, to } = req.query;
 
-3) ABSOLUTE RIGIDITY (ACADEMIC)
-Once a user asks an academic or subject-related question, you must stay strictly within the notes. You are prohibited from using any outside knowledge.
+    if (typeof q !== 'string' || !q.trim() || q.length > 200) return res.status(400).json({ error: 'q (1-200 characters) is required' });
+    if (type && !SEARCH_FILE_TYPES.includes(type)) return res.status(400).json({ error: `type must be one of: ${SEARCH_FILE_TYPES.join(', ')}` });
+    if ([from, to].some(date => date && !isSearchDate(date))) return res.status(400).json({ error: 'from and to must be YYYY-MM-DD dates' });
 
-4) NO HALLUCINATIONS
-If the notes mention a topic but don't answer the specific question, you must still refuse.
+    const folderIds = folderId ? await folderSubtreeIds(userId, folderId) : null;
+    if (folderIds && folderIds.length === 0) return res.status(404).json({ error: 'Folder not found' });
 
-5) EVIDENCE REQUIREMENT
-If the answer IS in the notes:
-- Provide a clear, teacher-like explanation.
-- Include numbered citations [1], [2], etc.
-- Include direct supporting evidence snippets.
-- Provide a confidence score.
+    res.json(await searchNotes(userId, q, { folderIds, fileType: type || null, from: from || null, to: to || null }));
+  } catch (err) {
+    console.error('Search error:', err);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
 
-6) RESPONSE FORMAT (STRICT JSON)
-Return your response in this JSON format:
-{
-  "spoken_answer": "Refusal message or clear explanation",
-  "citations": [
-    {
-      "id": "1",
-      "evidence_snippet": "Quote from text"
+app.get('/api/notes/index-status', authenticateToken, async (req, res) => {
+  try {
+    const userId = req.user.userId;
+    const { folderId } = req.query;
+
+    if (!folderId) return res.status(400).json({ error: 'folderId required' });
+
+    const result = await pool.query(
+      'SELECT id, index_status, index_error, indexed_at FROM notes WHERE user_id = $1 AND folder_id = ANY($2::uuid[]) AND deleted_at IS NULL',
+      [userId, await folderSubtreeIds(userId, folderId)]
+    );
+    res.json(result.rows);
+  } catch (err) {
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.post('/api/notes/:id/reindex', authenticateToken, async (req, res) => {
+  try {
+    const userId = req.user.userId;
+    const noteId = req.params.id;
+
+    const result = await pool.query(
+      `UPDATE notes SET index_status = 'stale', content_hash = NULL WHERE id = $1 AND user_id = $2 AND deleted_at IS NULL RETURNING id, folder_id, index_status`,
+      [noteId, userId]
+    );
+    if (result.rows.length === 0) return res.status(404).json({ error: 'Note not found' });
+
+    queueReindex(result.rows[0], embedder);
+    res.json(result.rows[0]);
+  } catch (err) {
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.post('/api/notes/upload', authenticateToken, upload.single('file'), async (req, res) => {
+  try {
+    const userId = req.user.userId;
+    const { folder_id } = req.body;
+    const file = req.file;
+
+    if (!file || !folder_id) {
+      return res.status(400).json({ error: 'File and folder_id are required' });
     }
-  ],
-  "confidence": "High/Medium/Low"
-}
+    if (!(await ownsFolder(userId, folder_id))) return res.status(404).json({ error: 'Folder not found' });
 
-7) VOICE-READY OUTPUT
-- Avoid markdown symbols (except in citations section).
-- Keep spoken_answer natural for text-to-speech.
+    const title = file.originalname;
+    const { mimeType, content } = await importFile(file);
 
-INPUT PROVIDED TO YOU THIS TURN:
-{
-  "subject": "${folderName || "Subject"}",
-  "notes_context": ${JSON.stringify(contextText || "No notes available.")},
-  "conversation_history": ${JSON.stringify(historyMessages.slice(-3).map(m => m.role + ': ' + m.content).join('\n'))},
-  "current_question": ${JSON.stringify(message)}
-}
+    // The original is kept so it can be downloaded and shown next to the text
+    const sourceKey = await storage.save(file.buffer);
+    let result;
+    try {
+      result = await pool.query(
+        `INSERT INTO notes (user_id, folder_id, title, content, source_key, source_name, source_type, source_size)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8) RETURNING *`,
+        [userId, folder_id, title, content, sourceKey, file.originalname, mimeType, file.size]
+      );
+    } catch (err) {
+      await removeSourceFiles([sourceKey]);
+      throw err;
+    }
+
+    queueReindex(result.rows[0], embedder);
+    res.status(201).json(result.rows[0]);
+  } catch (err) {
+    if (err.status) return res.status(err.status).json({ error: err.message });
+    console.error('Upload Error:', err);
+    res.status(500).json({ error: 'Failed to process file' });
+  }
+});
+
+// The original uploaded file. Served inline for the source viewer, or as an
+// attachment with ?download=1.
+app.get('/api/notes/:id/source', authenticateToken, async (req, res) => {
+  try {
+    const result = await pool.query(
+      'SELECT source_key, source_name, source_type FROM notes WHERE id = $1 AND user_id = $2 AND deleted_at IS NULL',
+      [req.params.id, req.user.userId]
+    );
+    const note = result.rows[0];
+    if (!note || !note.source_key) return res.status(404).json({ error: 'Original file not found' });
 
-OUTPUT ONLY VALID JSON.`;
+    let file;
+    try {
+      file = await storage.read(note.source_key);
+    } catch (err) {
+      if (err.code === 'ENOENT') return res.status(404).json({ error: 'Original file not found' });
+      throw err;
+    }
+
+    const disposition = req.query.download ? 'attachment' : 'inline';
+    res.setHeader('Content-Type', note.source_type || 'application/octet-stream');
+    res.setHeader('Content-Disposition', `${disposition}; filename*=UTF-8''${encodeURIComponent(note.source_name || 'source')}`);
+    res.send(file);
+  } catch (err) {
+    console.error('Source file error:', err);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.get('/api/chat/threads', authenticateToken, async (req, res) => {
+  try {
+    const userId = req.user.userId;
+    const { folderId } = req.query;
+
+    if (!folderId) return res.status(400).json({ error: 'folderId required' });
+
+    const result = await pool.query(
+      'SELECT * FROM chat_threads WHERE user_id = $1 AND folder_id = $2 ORDER BY updated_at DESC',
+      [userId, folderId]
+    );
+    res.json(result.rows);
+  } catch (err) {
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.post('/api/chat/threads', authenticateToken, async (req, res) => {
+  try {
+    const userId = req.user.userId;
+    const { folderId, title } = req.body;
+
+    if (!folderId) return res.status(400).json({ error: 'folderId required' });
+
+    const folderRes = await pool.query('SELECT id FROM folders WHERE id = $1 AND user_id = $2 AND deleted_at IS NULL', [folderId, userId]);
+    if (folderRes.rows.length === 0) return res.status(404).json({ error: 'Folder not found' });
+
+    const result = await pool.query(
+      'INSERT INTO chat_threads (user_id, folder_id, title) VALUES ($1, $2, $3) RETURNING *',
+      [userId, folderId, (title || '').trim() || 'New conversation']
+    );
+    res.status(201).json(result.rows[0]);
+  } catch (err) {
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.patch('/api/chat/threads/:id', authenticateToken, async (req, res) => {
+  try {
+    const userId = req.user.userId;
+    const { title } = req.body;
+
+    if (!title || !title.trim()) return res.status(400).json({ error: 'Title is required' });
+
+    const result = await pool.query(
+      'UPDATE chat_threads SET title = $1 WHERE id = $2 AND user_id = $3 RETURNING *',
+      [title.trim(), req.params.id, userId]
+    );
+    if (result.rows.length === 0) return res.status(404).json({ error: 'Thread not found' });
+    res.json(result.rows[0]);
+  } catch (err) {
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.delete('/api/chat/threads/:id', authenticateToken, async (req, res) => {
+  try {
+    const userId = req.user.userId;
+
+    await pool.query('DELETE FROM chat_threads WHERE id = $1 AND user_id = $2', [req.params.id, userId]);
+    res.json({ message: 'Thread deleted' });
+  } catch (err) {
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.get('/api/chat/threads/:id/messages', authenticateToken, async (req, res) => {
+  try {
+    const userId = req.user.userId;
+
+    const threadRes = await pool.query('SELECT id FROM chat_threads WHERE id = $1 AND user_id = $2', [req.params.id, userId]);
+    if (threadRes.rows.length === 0) return res.status(404).json({ error: 'Thread not found' });
+
+    const result = await pool.query(
+      `SELECT role, content, citations, confidence, confidence_score AS "confidenceScore", passages, verification, created_at
+       FROM chat_messages WHERE thread_id = $1 ORDER BY created_at ASC`,
+      [req.params.id]
+    );
+    res.json(result.rows);
+  } catch (err) {
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.post('/api/chat', authenticateToken, async (req, res) => {
+  let thread = null;
+  let questionSaved = false;
+  try {
+    const userId = req.user.userId;
+    const { message, folderId, folderName, threadId } = req.body || {};
+
+    if (!message || !folderId) {
+      return res.status(400).json({ error: 'message and folderId are required' });
+    }
+
+    thread = await resolveChatThread(userId, folderId, threadId, message);
+    if (!thread) return res.status(404).json({ error: threadId ? 'Thread not found' : 'Folder not found' });
+
+    const { topChunks, contextText, historyMessages } = await prepareTeacherContext(userId, folderId, message, thread.id);
+    await saveChatMessage(thread.id, 'user', message);
+    questionSaved = true;
+
+    if (!openai) {
+      await saveChatMessage(thread.id, 'model', TEACHER_UNAVAILABLE_REPLY);
+      return res.json({ threadId: thread.id, reply: TEACHER_UNAVAILABLE_REPLY, citations: [] });
+    }
+
+    const systemPrompt = buildTeacherPrompt({ folderName, contextText, historyMessages, message });
 
     const completion = await openai.chat.completions.create({
       model: "gpt-4o-mini",
@@ -461,156 +1198,451 @@ OUTPUT ONLY VALID JSON.`;
     }
 
     if (!aiResponse) {
-      return res.json({ reply: 'Failed to generate response correctly.' });
+      await saveChatMessage(thread.id, 'model', TEACHER_FAILED_REPLY);
+      return res.json({ threadId: thread.id, reply: TEACHER_FAILED_REPLY, citations: [] });
     }
 
     if (aiResponse.spoken_answer && aiResponse.spoken_answer.includes(`Not found in your notes for`)) {
-      return res.json({ reply: aiResponse.spoken_answer });
+      await saveChatMessage(thread.id, 'model', aiResponse.spoken_answer);
+      return res.json({ threadId: thread.id, reply: aiResponse.spoken_answer, citations: [] });
     }
 
-    let finalReply = aiResponse.spoken_answer || '';
-
-    if (aiResponse.citations && aiResponse.citations.length > 0) {
-      finalReply += `\n\n**Supporting Evidence:**\n`;
-      aiResponse.citations.forEach((cit) => {
-        finalReply += `- [${cit.id}] "${cit.evidence_snippet}"\n`;
-      });
-    }
+    const { reply, citations, confidence, verification } = verifyAnswer({
+      question: message,
+      answer: (aiResponse.spoken_answer || '').trim(),
+      aiCitations: aiResponse.citations,
+      topChunks,
+      folderName
+    });
+    const passages = toPassages(topChunks);
+    await saveChatMessage(thread.id, 'model', reply, { citations, confidence: confidence.level, confidenceScore: confidence.score, passages, verification });
 
-    res.json({ reply: finalReply.trim() });
+    res.json({ threadId: thread.id, reply, citations, confidence: confidence.level, confidenceScore: confidence.score, passages, verification });
   } catch (err) {
     console.error('AI Error (Teacher Mode chat):', err);
+    if (questionSaved) await saveChatMessage(thread.id, 'model', TEACHER_FAILED_REPLY).catch(e => console.error(e));
     res.status(500).json({ error: 'Failed to process AI request' });
   }
 });
 
-app.post('/api/study', authenticateToken, async (req, res) => {
+// Length of the longest suffix of `text` that could be the start of the
+// citations delimiter, so it is held back instead of streamed as answer text.
+const partialDelimiterLength = (text) => {
+  for (let k = Math.min(CITATIONS_DELIMITER.length - 1, text.length); k > 0; k--) {
+    if (text.endsWith(CITATIONS_DELIMITER.slice(0, k))) return k;
+  }
+  return 0;
+};
+
+app.post('/api/chat/stream', authenticateToken, async (req, res) => {
+  const abort = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) abort.abort();
+  });
+  const send = (event, data) => res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  let thread = null;
+  let questionSaved = false;
+  let answer = '';
+
   try {
     const userId = req.user.userId;
-    const { folderId, folderName, mode, targetConcept } = req.body || {};
+    const { message, folderId, folderName, threadId } = req.body || {};
 
-    if (!folderId) {
-      return res.status(400).json({ error: 'folderId is required' });
+    if (!message || !folderId) {
+      return res.status(400).json({ error: 'message and folderId are required' });
     }
 
+    thread = await resolveChatThread(userId, folderId, threadId, message);
+    if (!thread) return res.status(404).json({ error: threadId ? 'Thread not found' : 'Folder not found' });
+
+    const { topChunks, contextText, historyMessages } = await prepareTeacherContext(userId, folderId, message, thread.id);
+    await saveChatMessage(thread.id, 'user', message);
+    questionSaved = true;
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    });
+    send('thread', { threadId: thread.id, title: thread.title });
+
     if (!openai) {
-      return res.status(503).json({ error: 'OpenAI API key not configured' });
+      await saveChatMessage(thread.id, 'model', TEACHER_UNAVAILABLE_REPLY);
+      send('token', { text: TEACHER_UNAVAILABLE_REPLY });
+      send('citations', { citations: [] });
+      send('confidence', { confidence: null });
+      send('done', {});
+      return res.end();
     }
 
-    const notesRes = await pool.query(
-      'SELECT id, title, content FROM notes WHERE user_id = $1 AND folder_id = $2',
-      [userId, folderId]
-    );
-    const notes = notesRes.rows || [];
+    const systemPrompt = buildTeacherPrompt({ folderName, contextText, historyMessages, message, streaming: true });
 
-    if (!notes.length) {
-      return res.json({
-        subject: folderName || "Subject",
-        mcqs: [],
-        short_answer_questions: [],
-        references: [],
-        message: 'No notes found to generate study materials.'
-      });
+    const stream = await openai.chat.completions.create({
+      model: "gpt-4o-mini",
+      stream: true,
+      messages: [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: message }
+      ],
+    }, { signal: abort.signal });
+
+    let pending = '';
+    let tail = '';
+    let delimiterSeen = false;
+    const emit = (text) => {
+      if (!text) return;
+      answer += text;
+      send('token', { text });
+    };
+
+    for await (const part of stream) {
+      const delta = part.choices[0]?.delta?.content || '';
+      if (!delta) continue;
+      if (delimiterSeen) {
+        tail += delta;
+        continue;
+      }
+
+      pending += delta;
+      const at = pending.indexOf(CITATIONS_DELIMITER);
+      if (at !== -1) {
+        emit(pending.slice(0, at));
+        tail = pending.slice(at + CITATIONS_DELIMITER.length);
+        pending = '';
+        delimiterSeen = true;
+        continue;
+      }
+      const keep = partialDelimiterLength(pending);
+      emit(pending.slice(0, pending.length - keep));
+      pending = pending.slice(pending.length - keep);
     }
+    emit(pending);
 
-    let focusInstruction = "Generate a diverse set of questions that cover the core concepts of the notes provided.";
-    if (mode === 'weakness' && targetConcept) {
-      focusInstruction = `URGENT FOCUS: The student is struggling with "${targetConcept}". 
-      You MUST generate high-difficulty, conceptually dense questions specifically targeting "${targetConcept}" and any related sub-concepts or prerequisites.
-      Avoid general overview; go deep into the mechanics of "${targetConcept}".`;
+    let meta = {};
+    try {
+      meta = JSON.parse(tail.replace(/```(json)?/g, '').trim() || '{}');
+    } catch (e) {
+      console.error("Failed to parse Teacher Mode citations", e);
     }
 
-    const contextText = notes.map(note => `Note Title: ${note.title || 'Untitled'}\nContent:\n${note.content || ''}`).join('\n\n---\n\n');
+    const notFound = answer.includes('Not found in your notes for');
+    const { reply, citations, confidence, verification } = notFound
+      ? { reply: answer.trim(), citations: [], confidence: { level: null, score: null }, verification: 'none' }
+      : verifyAnswer({ question: message, answer: answer.trim(), aiCitations: meta.citations, topChunks, folderName });
+    const passages = notFound ? [] : toPassages(topChunks);
+    await saveChatMessage(thread.id, 'model', reply, { citations, confidence: confidence.level, confidenceScore: confidence.score, passages, verification });
+
+    // A failed verification replaces the streamed text with the refusal
+    send('verification', { status: verification, ...(verification === 'failed' ? { reply } : {}) });
+    send('citations', { citations });
+    send('confidence', { confidence: confidence.level, confidenceScore: confidence.score, passages });
+    send('done', {});
+    res.end();
+  } catch (err) {
+    if (abort.signal.aborted) {
+      // Keep what the student already saw of a cancelled answer
+      if (thread && answer.trim()) {
+        await saveChatMessage(thread.id, 'model', `${answer.trim()} …`).catch(e => console.error(e));
+      }
+      return res.end();
+    }
+    console.error('AI Error (Teacher Mode stream):', err);
+    if (questionSaved) await saveChatMessage(thread.id, 'model', TEACHER_FAILED_REPLY).catch(e => console.error(e));
+    if (!res.headersSent) return res.status(500).json({ error: 'Failed to process AI request' });
+    send('error', { error: 'Failed to process AI request' });
+    res.end();
+  }
+});
 
-    const systemPrompt = `You are a strict study material generator. 
-For the subject provided below, generate structured study material based ONLY on the provided notes.
-Do not fabricate facts. If the notes do not contain enough information, do your best with what is provided.
+// Upserts a concept's running tally for the gap map.
+const recordConceptAttempt = async (userId, folderId, conceptName, isCorrect, score) => {
+  const correctVal = isCorrect ? 1 : 0;
+  const scoreVal = score !== undefined ? score : (isCorrect ? 10 : 0);
+
+  await pool.query(
+    `INSERT INTO concept_stats (user_id, folder_id, concept_name, correct_count, attempt_count, last_score, last_attempted)
+     VALUES ($1, $2, $3, $4, 1, $5, CURRENT_TIMESTAMP)
+     ON CONFLICT (user_id, folder_id, concept_name) DO UPDATE SET
+       correct_count = concept_stats.correct_count + EXCLUDED.correct_count,
+       attempt_count = concept_stats.attempt_count + 1,
+       last_score = EXCLUDED.last_score,
+       last_attempted = CURRENT_TIMESTAMP`,
+    [userId, folderId, conceptName, correctVal, scoreVal]
+  );
+};
 
-${focusInstruction}
+// One point per auto-marked question and per SAQ (graded score / 10). A quiz
+// is complete once every question is answered and every SAQ graded.
+const scoreQuiz = (questions, answers, saqResults) => {
+  const saqs = questions.short_answer_questions || [];
+  let score = 0;
+  let answered = 0;
+  let maxScore = saqs.length;
+
+  for (const [key, { prefix, isCorrect }] of Object.entries(OBJECTIVE_TYPES)) {
+    (questions[key] || []).forEach((question, idx) => {
+      maxScore++;
+      const answer = answers[`${prefix}${idx}`];
+      if (answer === undefined) return;
+      answered++;
+      if (isCorrect(question, answer)) score++;
+    });
+  }
+  saqs.forEach((_, idx) => {
+    const result = saqResults[idx];
+    if (!result || typeof result.score !== 'number') return;
+    answered++;
+    score += Math.max(0, Math.min(10, result.score)) / 10;
+  });
 
-Subject:
-${folderName || "Subject"}
+  return { score: Math.round(score * 10) / 10, maxScore, completed: maxScore > 0 && answered === maxScore };
+};
 
-Requirements:
-1) Generate exactly 5 Multiple Choice Questions (MCQs).
-   - Each MCQ must include:
-     - Question
+// Adds generated flashcards to the folder's deck. A card whose front is already
+// in the deck keeps its review history instead of being duplicated.
+const saveFlashcards = async (userId, folderId, flashcards) => {
+  const saved = [];
+  for (const card of Array.isArray(flashcards) ? flashcards : []) {
+    if (!card?.front || !card?.back) continue;
+    const result = await pool.query(
+      `INSERT INTO flashcards (user_id, folder_id, front, back, concept)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (user_id, folder_id, front) DO UPDATE SET back = EXCLUDED.back, concept = EXCLUDED.concept
+       RETURNING id`,
+      [userId, folderId, card.front, card.back, card.concept || null]
+    );
+    saved.push({ ...card, id: result.rows[0].id });
+  }
+  return saved;
+};
+
+// Requirement lines and JSON schema fragment for each question type.
+const STUDY_TYPE_SPECS = {
+  mcq: {
+    requirements: `- Question
      - Four options labeled A, B, C, D
      - Correct option clearly indicated
      - A brief explanation (2–4 sentences)
-     - At least one citation supporting the explanation
+     - At least one citation supporting the explanation, with a verbatim quote from the notes as evidence`,
+    schema: `{
+      "question": "string",
+      "concept": "string",
+      "options": { "A": "string", "B": "string", "C": "string", "D": "string" },
+      "correct_answer": "A",
+      "explanation": "string",
+      "citations": [{ "id": "[1]", "evidence_snippet": "Verbatim quote from the notes" }]
+    }`
+  },
+  saq: {
+    requirements: `- Question
+     - Model answer (3–6 sentences)
+     - At least one citation supporting the answer, with a verbatim quote from the notes as evidence`,
+    schema: `{
+      "question": "string",
+      "concept": "string",
+      "model_answer": "string",
+      "citations": [{ "id": "[1]", "evidence_snippet": "Verbatim quote from the notes" }]
+    }`
+  },
+  trueFalse: {
+    requirements: `- A single statement that is unambiguously true or false according to the notes (mix both)
+     - The answer as a JSON boolean
+     - A brief explanation (1–3 sentences)
+     - At least one citation with a verbatim quote from the notes as evidence`,
+    schema: `{
+      "statement": "string",
+      "concept": "string",
+      "answer": true,
+      "explanation": "string",
+      "citations": [{ "id": "[1]", "evidence_snippet": "Verbatim quote from the notes" }]
+    }`
+  },
+  fillBlank: {
+    requirements: `- A sentence from the material with one key term replaced by ____ (four underscores)
+     - The missing term, plus any equally correct spellings or synonyms
+     - A brief explanation (1–3 sentences)
+     - At least one citation with a verbatim quote from the notes as evidence`,
+    schema: `{
+      "sentence": "The ____ is the powerhouse of the cell.",
+      "concept": "string",
+      "answer": "mitochondrion",
+      "accepted_answers": ["mitochondria"],
+      "explanation": "string",
+      "citations": [{ "id": "[1]", "evidence_snippet": "Verbatim quote from the notes" }]
+    }`
+  },
+  multiSelect: {
+    requirements: `- Question asking the student to select ALL correct options
+     - Five options labeled A, B, C, D, E, of which at least two are correct
+     - The list of correct options
+     - A brief explanation (2–4 sentences)
+     - At least one citation with a verbatim quote from the notes as evidence`,
+    schema: `{
+      "question": "string",
+      "concept": "string",
+      "options": { "A": "string", "B": "string", "C": "string", "D": "string", "E": "string" },
+      "correct_answers": ["A", "C"],
+      "explanation": "string",
+      "citations": [{ "id": "[1]", "evidence_snippet": "Verbatim quote from the notes" }]
+    }`
+  },
+  flashcards: {
+    requirements: `- Front: A concise question, term, or concept.
+     - Back: A clear, summarized answer or definition (max 3 sentences).
+     - Concept: The concept the card tests, named the same way as in the questions.`,
+    schema: `{
+      "front": "string",
+      "back": "string",
+      "concept": "string"
+    }`
+  }
+};
 
-2) Generate exactly 3 Short-Answer Questions.
+const buildStudyPrompt = ({ folderName, focusInstruction, options, contextText }) => {
+  const requested = Object.entries(QUESTION_TYPES).filter(([type]) => options.counts[type] > 0);
+  const requirements = requested.map(([type, { label }], i) =>
+    `${i + 1}) Generate exactly ${options.counts[type]} ${label}.
    - Each must include:
-     - Question
-     - Model answer (3–6 sentences)
-     - At least one citation supporting the answer
+     ${STUDY_TYPE_SPECS[type].requirements}`
+  ).join('\n\n');
+  const schemaFields = requested.map(([type, { key }]) => `  "${key}": [
+    ${STUDY_TYPE_SPECS[type].schema}
+  ]`).join(',\n');
+  const n = requested.length;
+
+  return `You are a strict study material generator. 
+For the subject provided below, generate structured study material based ONLY on the provided notes.
+Do not fabricate facts. If the notes do not contain enough information, do your best with what is provided.
 
-3) Generate exactly 5 conceptual Flashcards.
-   - Each flashcard must consist of:
-     - Front: A concise question, term, or concept.
-     - Back: A clear, summarized answer or definition (max 3 sentences).
+${focusInstruction}
 
-4) Citations:
+Subject:
+${folderName || "Subject"}
+
+Requirements:
+${requirements}
+
+${n + 1}) Citations:
    - Use numbered citations like [1], [2], etc.
    - At the end, include a "References" section listing all sources in APA format.
    - Sources must be the titles of the provided notes.
 
-5) Difficulty Level: Moderate (suitable for undergraduate level unless otherwise specified).
-6) Output Format: Return the response strictly as a JSON object matching this schema exactly:
+${n + 2}) Difficulty Level: ${DIFFICULTIES[options.difficulty]}.
+${n + 3}) Output Format: Return the response strictly as a JSON object matching this schema exactly:
 
 {
   "subject": "${folderName || "Subject"}",
-  "mcqs": [
-    {
-      "question": "string",
-      "concept": "string",
-      "options": {
-        "A": "string",
-        "B": "string",
-        "C": "string",
-        "D": "string"
-      },
-      "correct_answer": "A",
-      "explanation": "string",
-      "citations": ["[1]"]
-    }
-  ],
-  "short_answer_questions": [
-    {
-      "question": "string",
-      "concept": "string",
-      "model_answer": "string",
-      "citations": ["[1]"]
-    }
-  ],
-  "flashcards": [
-    {
-      "front": "string",
-      "back": "string"
-    }
-  ],
+${schemaFields},
   "references": [
     {
       "id": "[1]",
       "citation": "First Note Title"
     }
-  ]
-}
+  ]
+}
+
+--- USER'S NOTES FOR CURRENT SUBJECT ---
+${contextText}
+`;
+};
+
+const STUDY_GENERATION_ATTEMPTS = 3;
+
+// Asks for study material until the output parses and matches the schema,
+// feeding the problems back to the model on each retry.
+const generateStudyMaterial = async (systemPrompt, options) => {
+  const messages = [{ role: "system", content: systemPrompt }];
+  let errors = [];
+
+  for (let attempt = 1; attempt <= STUDY_GENERATION_ATTEMPTS; attempt++) {
+    const completion = await openai.chat.completions.create({
+      model: "gpt-4o-mini",
+      response_format: { type: "json_object" },
+      messages
+    });
+    const content = completion.choices[0].message.content;
+
+    let data = null;
+    try {
+      data = JSON.parse(content);
+      errors = validateStudyMaterial(data, options);
+    } catch {
+      errors = ['response is not valid JSON'];
+    }
+    if (errors.length === 0) return data;
+
+    console.warn(`Study material attempt ${attempt} invalid:`, errors.slice(0, 5));
+    messages.push(
+      { role: "assistant", content },
+      { role: "user", content: `Your response did not match the required schema:\n- ${errors.slice(0, 20).join('\n- ')}\nReturn the complete corrected JSON object.` }
+    );
+  }
+  return null;
+};
+
+app.post('/api/study', authenticateToken, async (req, res) => {
+  try {
+    const userId = req.user.userId;
+    const { folderId, folderName, mode, targetConcept } = req.body || {};
+    const options = normalizeQuizOptions(req.body?.options);
+
+    if (!folderId) {
+      return res.status(400).json({ error: 'folderId is required' });
+    }
+
+    if (!Object.values(options.counts).some(Boolean)) {
+      return res.status(400).json({ error: 'Ask for at least one question or flashcard' });
+    }
+
+    if (!openai) {
+      return res.status(503).json({ error: 'OpenAI API key not configured' });
+    }
+
+    let chunks = await loadFolderChunks(userId, folderId);
+    if (options.noteIds.length) {
+      chunks = chunks.filter(chunk => options.noteIds.includes(chunk.noteId));
+    }
+    const notes = groupChunksByNote(chunks);
+
+    if (!notes.length) {
+      return res.json({
+        subject: folderName || "Subject",
+        mcqs: [],
+        short_answer_questions: [],
+        references: [],
+        message: 'No notes found to generate study materials.'
+      });
+    }
+
+    let focusInstruction = "Generate a diverse set of questions that cover the core concepts of the notes provided.";
+    if (mode === 'weakness' && targetConcept) {
+      focusInstruction = `URGENT FOCUS: The student is struggling with "${targetConcept}". 
+      You MUST generate high-difficulty, conceptually dense questions specifically targeting "${targetConcept}" and any related sub-concepts or prerequisites.
+      Avoid general overview; go deep into the mechanics of "${targetConcept}".`;
+    }
 
---- USER'S NOTES FOR CURRENT SUBJECT ---
-${contextText}
-`;
+    const contextText = notes.map(note => `Note Title: ${note.title || 'Untitled'}\nContent:\n${note.content || ''}`).join('\n\n---\n\n');
+    const systemPrompt = buildStudyPrompt({ folderName, focusInstruction, options, contextText });
 
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
-      response_format: { type: "json_object" },
-      messages: [
-        { role: "system", content: systemPrompt }
-      ],
-    });
+    const aiResponse = await generateStudyMaterial(systemPrompt, options);
+    if (!aiResponse) {
+      return res.status(502).json({ error: 'The AI returned malformed study material. Please try again.' });
+    }
 
-    const aiResponse = JSON.parse(completion.choices[0].message.content);
+    for (const key of Object.keys(OBJECTIVE_TYPES).concat('short_answer_questions')) {
+      aiResponse[key] = verifyStudyCitations(aiResponse[key], chunks);
+    }
+    aiResponse.flashcards = await saveFlashcards(userId, folderId, aiResponse.flashcards);
+    aiResponse.options = options;
+
+    const title = mode === 'weakness' && targetConcept ? `Focus: ${targetConcept}` : `${folderName || 'Subject'} quiz`;
+    const { maxScore } = scoreQuiz(aiResponse, {}, {});
+    const session = await pool.query(
+      `INSERT INTO quiz_sessions (user_id, folder_id, title, questions, max_score)
+       VALUES ($1, $2, $3, $4, $5) RETURNING id`,
+      [userId, folderId, title, JSON.stringify(aiResponse), maxScore]
+    );
+    aiResponse.sessionId = session.rows[0].id;
     res.json(aiResponse);
 
   } catch (err) {
@@ -644,20 +1676,229 @@ app.post('/api/study/performance', authenticateToken, async (req, res) => {
 
     if (!folderId || !conceptName) return res.status(400).json({ error: 'Missing data' });
 
-    const correctVal = isCorrect ? 1 : 0;
-    const scoreVal = score !== undefined ? score : (isCorrect ? 10 : 0);
+    await recordConceptAttempt(userId, folderId, conceptName, isCorrect, score);
+
+    res.json({ success: true });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+const FLASHCARD_COLUMNS = `id, front, back, concept, ease_factor AS "easeFactor", interval_days AS "intervalDays",
+  repetitions, lapses, due_at AS "dueAt", last_reviewed_at AS "lastReviewedAt"`;
+
+// Review queue for a folder's deck; ?due=true limits it to cards due by the end of today.
+app.get('/api/flashcards', authenticateToken, async (req, res) => {
+  try {
+    const userId = req.user.userId;
+    const { folderId, due } = req.query;
+    if (!folderId) return res.status(400).json({ error: 'folderId required' });
+
+    const dueFilter = due === 'true' ? `AND due_at < date_trunc('day', CURRENT_TIMESTAMP) + INTERVAL '1 day'` : '';
+    const result = await pool.query(
+      `SELECT ${FLASHCARD_COLUMNS} FROM flashcards
+       WHERE user_id = $1 AND folder_id = $2 ${dueFilter}
+       ORDER BY due_at ASC`,
+      [userId, folderId]
+    );
+    res.json(result.rows);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.get('/api/flashcards/summary', authenticateToken, async (req, res) => {
+  try {
+    const userId = req.user.userId;
+    const { folderId } = req.query;
+    if (!folderId) return res.status(400).json({ error: 'folderId required' });
+
+    const result = await pool.query(
+      `SELECT COUNT(*)::int AS total,
+              COUNT(*) FILTER (WHERE due_at < date_trunc('day', CURRENT_TIMESTAMP) + INTERVAL '1 day')::int AS due
+       FROM flashcards WHERE user_id = $1 AND folder_id = $2`,
+      [userId, folderId]
+    );
+    res.json(result.rows[0]);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.post('/api/flashcards/:id/review', authenticateToken, async (req, res) => {
+  try {
+    const userId = req.user.userId;
+    const { grade } = req.body || {};
+    if (!Object.hasOwn(GRADES, grade)) return res.status(400).json({ error: 'grade must be one of again, hard, good, easy' });
+
+    const existing = await pool.query(
+      'SELECT * FROM flashcards WHERE id = $1 AND user_id = $2',
+      [req.params.id, userId]
+    );
+    if (existing.rows.length === 0) return res.status(404).json({ error: 'Flashcard not found' });
+    const card = existing.rows[0];
+
+    const next = scheduleReview(card, grade);
+    const result = await pool.query(
+      `UPDATE flashcards SET ease_factor = $1, interval_days = $2, repetitions = $3,
+         lapses = lapses + $4, due_at = $5, last_reviewed_at = CURRENT_TIMESTAMP
+       WHERE id = $6 RETURNING ${FLASHCARD_COLUMNS}`,
+      [next.easeFactor, next.intervalDays, next.repetitions, next.lapsed ? 1 : 0, next.dueAt, card.id]
+    );
+
+    if (card.concept) {
+      await recordConceptAttempt(userId, card.folder_id, card.concept, grade !== 'again', GRADES[grade].score);
+    }
+
+    res.json(result.rows[0]);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.delete('/api/flashcards/:id', authenticateToken, async (req, res) => {
+  try {
+    const result = await pool.query(
+      'DELETE FROM flashcards WHERE id = $1 AND user_id = $2 RETURNING id',
+      [req.params.id, req.user.userId]
+    );
+    if (result.rows.length === 0) return res.status(404).json({ error: 'Flashcard not found' });
+    res.json({ success: true });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+const QUIZ_SUMMARY_COLUMNS = `id, folder_id, title, score, max_score AS "maxScore", retake_of AS "retakeOf",
+  completed_at AS "completedAt", created_at AS "createdAt", updated_at AS "updatedAt"`;
+
+app.get('/api/quizzes', authenticateToken, async (req, res) => {
+  try {
+    const { folderId } = req.query;
+    if (!folderId) return res.status(400).json({ error: 'folderId required' });
+
+    const result = await pool.query(
+      `SELECT ${QUIZ_SUMMARY_COLUMNS} FROM quiz_sessions
+       WHERE user_id = $1 AND folder_id = $2
+       ORDER BY created_at DESC`,
+      [req.user.userId, folderId]
+    );
+    res.json(result.rows);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.get('/api/quizzes/:id', authenticateToken, async (req, res) => {
+  try {
+    const result = await pool.query(
+      `SELECT ${QUIZ_SUMMARY_COLUMNS}, questions, mcq_answers AS "mcqAnswers", saq_answers AS "saqAnswers", saq_results AS "saqResults"
+       FROM quiz_sessions WHERE id = $1 AND user_id = $2`,
+      [req.params.id, req.user.userId]
+    );
+    if (result.rows.length === 0) return res.status(404).json({ error: 'Quiz not found' });
+    res.json(result.rows[0]);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// Applies `change` to a quiz's stored answers and rescores it from the stored
+// questions and SAQ grades. `change` gets the locked row and returns the new
+// { mcqAnswers, saqAnswers, saqResults }. Returns the quiz summary, or null
+// when the user has no such quiz.
+const updateQuizProgress = async (userId, quizId, change) => {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const existing = await client.query(
+      'SELECT questions, mcq_answers, saq_answers, saq_results FROM quiz_sessions WHERE id = $1 AND user_id = $2 FOR UPDATE',
+      [quizId, userId]
+    );
+    if (existing.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    const { mcqAnswers, saqAnswers, saqResults } = change(existing.rows[0]);
+    const { score, maxScore, completed } = scoreQuiz(existing.rows[0].questions, mcqAnswers, saqResults);
+    const result = await client.query(
+      `UPDATE quiz_sessions SET mcq_answers = $1, saq_answers = $2, saq_results = $3,
+         score = $4, max_score = $5,
+         completed_at = CASE WHEN $6 THEN COALESCE(completed_at, CURRENT_TIMESTAMP) ELSE NULL END,
+         updated_at = CURRENT_TIMESTAMP
+       WHERE id = $7 RETURNING ${QUIZ_SUMMARY_COLUMNS}`,
+      [JSON.stringify(mcqAnswers), JSON.stringify(saqAnswers), JSON.stringify(saqResults), score, maxScore, completed, quizId]
+    );
+    await client.query('COMMIT');
+    return result.rows[0];
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+};
+
+// Saves the student's progress; the score is always recomputed here from the
+// stored questions. SAQ grades are only ever written by /api/grade.
+app.patch('/api/quizzes/:id', authenticateToken, async (req, res) => {
+  try {
+    const { mcqAnswers = {}, saqAnswers = {} } = req.body || {};
+    if ([mcqAnswers, saqAnswers].some(answers => !answers || typeof answers !== 'object' || Array.isArray(answers))) {
+      return res.status(400).json({ error: 'mcqAnswers and saqAnswers must be objects' });
+    }
+
+    const summary = await updateQuizProgress(req.user.userId, req.params.id, row => ({
+      mcqAnswers,
+      saqAnswers,
+      saqResults: row.saq_results || {}
+    }));
+    if (!summary) return res.status(404).json({ error: 'Quiz not found' });
+    res.json(summary);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// Starts a fresh attempt at a past quiz with the same questions.
+app.post('/api/quizzes/:id/retake', authenticateToken, async (req, res) => {
+  try {
+    const existing = await pool.query(
+      'SELECT folder_id, title, questions, max_score, retake_of FROM quiz_sessions WHERE id = $1 AND user_id = $2',
+      [req.params.id, req.user.userId]
+    );
+    if (existing.rows.length === 0) return res.status(404).json({ error: 'Quiz not found' });
+    const original = existing.rows[0];
 
-    await pool.query(
-      `INSERT INTO concept_stats (user_id, folder_id, concept_name, correct_count, attempt_count, last_score, last_attempted)
-       VALUES ($1, $2, $3, $4, 1, $5, CURRENT_TIMESTAMP)
-       ON CONFLICT (user_id, folder_id, concept_name) DO UPDATE SET
-         correct_count = concept_stats.correct_count + EXCLUDED.correct_count,
-         attempt_count = concept_stats.attempt_count + 1,
-         last_score = EXCLUDED.last_score,
-         last_attempted = CURRENT_TIMESTAMP`,
-      [userId, folderId, conceptName, correctVal, scoreVal]
+    const result = await pool.query(
+      `INSERT INTO quiz_sessions (user_id, folder_id, title, questions, max_score, retake_of)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING ${QUIZ_SUMMARY_COLUMNS}, questions, mcq_answers AS "mcqAnswers", saq_answers AS "saqAnswers", saq_results AS "saqResults"`,
+      [req.user.userId, original.folder_id, original.title, JSON.stringify(original.questions), original.max_score, original.retake_of || req.params.id]
     );
+    res.json(result.rows[0]);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
 
+app.delete('/api/quizzes/:id', authenticateToken, async (req, res) => {
+  try {
+    const result = await pool.query(
+      'DELETE FROM quiz_sessions WHERE id = $1 AND user_id = $2 RETURNING id',
+      [req.params.id, req.user.userId]
+    );
+    if (result.rows.length === 0) return res.status(404).json({ error: 'Quiz not found' });
     res.json({ success: true });
   } catch (err) {
     console.error(err);
@@ -665,9 +1906,24 @@ app.post('/api/study/performance', authenticateToken, async (req, res) => {
   }
 });
 
+// Grades a short answer out of 10. Given quizId and questionIndex, the
+// question and model answer are taken from the stored quiz and the grade is
+// saved there, so quiz scores only ever count grades the server gave.
 app.post('/api/grade', authenticateToken, async (req, res) => {
   try {
-    const { question, userAnswer, modelAnswer } = req.body || {};
+    const userId = req.user.userId;
+    const { quizId, questionIndex, userAnswer } = req.body || {};
+    let { question, modelAnswer } = req.body || {};
+
+    if (quizId) {
+      const quizRes = await pool.query('SELECT questions FROM quiz_sessions WHERE id = $1 AND user_id = $2', [quizId, userId]);
+      const saq = quizRes.rows[0] && Number.isInteger(questionIndex)
+        ? (quizRes.rows[0].questions.short_answer_questions || [])[questionIndex]
+        : null;
+      if (!saq) return res.status(404).json({ error: 'Question not found' });
+      question = saq.question;
+      modelAnswer = saq.model_answer;
+    }
 
     if (!question || !userAnswer || !modelAnswer) {
       return res.status(400).json({ error: 'Missing required fields' });
@@ -702,7 +1958,20 @@ app.post('/api/grade', authenticateToken, async (req, res) => {
     });
 
     const aiResponse = JSON.parse(completion.choices[0].message.content);
-    res.json(aiResponse);
+    const grade = {
+      score: Math.max(0, Math.min(10, Number(aiResponse.score) || 0)),
+      feedback: String(aiResponse.feedback || '')
+    };
+
+    if (quizId) {
+      const summary = await updateQuizProgress(userId, quizId, row => ({
+        mcqAnswers: row.mcq_answers || {},
+        saqAnswers: { ...row.saq_answers, [questionIndex]: userAnswer },
+        saqResults: { ...row.saq_results, [questionIndex]: grade }
+      }));
+      if (!summary) return res.status(404).json({ error: 'Quiz not found' });
+    }
+    res.json(grade);
 
   } catch (err) {
     console.error('Grading error:', err);
@@ -710,30 +1979,51 @@ app.post('/api/grade', authenticateToken, async (req, res) => {
   }
 });
 
+const EXPLANATION_LAYERS = ['intuition', 'technical', 'deepDive'];
+
 app.post('/api/study/layered-explain', authenticateToken, async (req, res) => {
   try {
     const userId = req.user.userId;
-    const { concept, folderId } = req.body;
+    const { concept, folderId, folderName } = req.body;
 
     if (!concept || !folderId) return res.status(400).json({ error: 'Concept and folderId required' });
 
-    const notesRes = await pool.query(
-      'SELECT id, title, content FROM notes WHERE user_id = $1 AND folder_id = $2',
-      [userId, folderId]
-    );
-    const contextText = notesRes.rows.map(n => n.content).join('\n\n---\n\n');
+    if (!openai) {
+      return res.status(503).json({ error: 'OpenAI API key not configured' });
+    }
+
+    const notFound = { concept, notFound: true, message: `Not found in your notes for ${folderName || "Subject"}.` };
+
+    const chunks = await loadFolderChunks(userId, folderId);
+    let topChunks = [];
+    if (chunks.length > 0) {
+      const [queryEmbedding] = await embedder.embed([concept]);
+      topChunks = rankChunks(concept, queryEmbedding, chunks, 8);
+    }
+    // Nothing in the notes shares a term with the concept: don't let the model improvise one
+    if (!topChunks.some(chunk => chunk.bm25 > 0)) return res.json(notFound);
+
+    const contextText = topChunks.map((chunk, i) => `[${i + 1}] ${chunkLabel(chunk)}\n${chunk.text}`).join('\n\n---\n\n');
 
     const systemPrompt = `You are an academic expert. Explain the concept of "${concept}" strictly based on the provided notes.
-    Return a JSON object with three levels of depth:
+    If the notes do not cover "${concept}", return exactly { "notFound": true } and nothing else.
+    Otherwise return a JSON object with three levels of depth:
     Layer 1: Intuition-based simple analogy (2-3 lines).
     Layer 2: Exam-ready structured technical explanation.
     Layer 3: Deep dive into edge cases, exceptions, and broader implications.
+    Each layer cites the numbered passages it draws on, quoting them verbatim as evidence.
     
     Structure:
     {
+      "notFound": false,
       "intuition": "...",
       "technical": "...",
-      "deepDive": "..."
+      "deepDive": "...",
+      "citations": {
+        "intuition": [{ "id": "[1]", "evidence_snippet": "Verbatim quote from the passage" }],
+        "technical": [{ "id": "[2]", "evidence_snippet": "Verbatim quote from the passage" }],
+        "deepDive": [{ "id": "[3]", "evidence_snippet": "Verbatim quote from the passage" }]
+      }
     }`;
 
     const completion = await openai.chat.completions.create({
@@ -742,94 +2032,269 @@ app.post('/api/study/layered-explain', authenticateToken, async (req, res) => {
       messages: [{ role: "system", content: systemPrompt }, { role: "user", content: `Context:\n${contextText}` }],
     });
 
-    res.json(JSON.parse(completion.choices[0].message.content));
+    const aiResponse = JSON.parse(completion.choices[0].message.content);
+    if (aiResponse.notFound || !EXPLANATION_LAYERS.some(layer => aiResponse[layer])) return res.json(notFound);
+
+    const citations = {};
+    for (const layer of EXPLANATION_LAYERS) {
+      citations[layer] = verifyCitations(buildCitations(aiResponse.citations?.[layer], topChunks), topChunks);
+    }
+    // Explanations with no quote that checks out against the notes fall under the same rule
+    if (!Object.values(citations).flat().some(c => c.verified)) return res.json(notFound);
+
+    res.json({
+      concept,
+      notFound: false,
+      intuition: aiResponse.intuition || '',
+      technical: aiResponse.technical || '',
+      deepDive: aiResponse.deepDive || '',
+      citations
+    });
   } catch (err) {
+    console.error('Layered explanation error:', err);
     res.status(500).json({ error: 'Failed to generate explanation' });
   }
 });
 
-app.post('/api/study/viva', authenticateToken, async (req, res) => {
-  try {
-    const userId = req.user.userId;
-    const { folderId, history = [], userAnswer = null, questionCount = 0 } = req.body;
+const VIVA_STRICTNESS = {
+  lenient: 'Be encouraging. Give generous partial credit for answers that show the right idea even if details are missing.',
+  standard: 'Expect accurate, reasonably complete answers. Give partial credit for partially correct answers.',
+  strict: 'Demand precise terminology and complete reasoning. Penalise vague, hedged or partially correct answers heavily.'
+};
+const MAX_VIVA_QUESTIONS = 10;
 
-    const notesRes = await pool.query('SELECT content FROM notes WHERE user_id = $1 AND folder_id = $2', [userId, folderId]);
-    const contextText = notesRes.rows.map(n => n.content).join('\n\n');
+const VIVA_COLUMNS = `id, folder_id, question_limit AS "questionLimit", strictness, status, messages, report,
+  overall_score AS "overallScore", created_at AS "createdAt", completed_at AS "completedAt"`;
 
-    const systemPrompt = `You are a strict academic VIVA EXAMINER. You MUST ONLY grill the student on the concepts and details provided in the Notes Context below. 
+// Asks the examiner for the next turn. `messages` is the transcript so far
+// (examiner turns carry the concept they target; answers carry their score).
+const runVivaExaminer = async ({ contextText, messages, answered, questionLimit, strictness }) => {
+  const isFinal = answered >= questionLimit;
+  const systemPrompt = `You are a strict academic VIVA EXAMINER. You MUST ONLY grill the student on the concepts and details provided in the Notes Context below. 
     DO NOT ask questions defined in predecided academic modules; instead, synthesize questions directly from the student's unique notes.
     
     Session Rules:
-    - Current question count: ${questionCount}.
-    - If questionCount === 0: This is a REFRESHED session. Do NOT provide feedback or mention previous context; instead, start with a fresh, challenging fundamental question to begin.
-    - If 0 < questionCount < 4: provide feedback on the last answer (if any) and ask the NEXT question and move to the next section even if the user has a very low score.
-    - If questionCount >= 4: DO NOT ask another question. Instead, provide a FINAL grade summary. 
-      If their overall performance (based on history) was poor (e.g. they lacked depth), tell them clearly: "The viva did not go well. You must go back and revise the notes on [Concept] before attempting again."
-      Set the 'isFinalResult' flag to true.
+    - The viva has ${questionLimit} question${questionLimit === 1 ? '' : 's'}. The student has answered ${answered}.
+    - Marking: ${VIVA_STRICTNESS[strictness]}
+    - If nothing has been answered yet: start with a fresh, challenging fundamental question. Do not give feedback.
+    - Otherwise: score the student's LAST answer from 0 to 10 and give brief feedback on it.
+    - ${isFinal
+      ? `This was the final answer. DO NOT ask another question. Write a short overall summary of the viva instead.
+      If their overall performance was poor, tell them clearly: "The viva did not go well. You must go back and revise the notes on [Concept] before attempting again."`
+      : 'Then ask the NEXT question on a different concept from the notes, even if the last answer scored poorly.'}
     
     Return JSON:
     {
-      "examinerResponse": "Conversational reply (The first question OR feedback + next question OR final result summary)",
-      "conceptTargeted": "The key concept being tested",
-      "performanceScore": "number 0-10 for the last answer (0 if questionCount is 0)",
-      "isFinalResult": boolean
+      "feedback": "Feedback on the last answer (empty string if nothing has been answered yet)",
+      "performanceScore": "number 0-10 for the last answer (0 if nothing has been answered yet)",
+      "nextQuestion": "${isFinal ? 'Empty string' : 'The next question'}",
+      "conceptTargeted": "${isFinal ? 'Empty string' : 'The key concept the next question tests'}",
+      "summary": "${isFinal ? 'Overall summary of the viva' : 'Empty string'}"
     }`;
 
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
-      response_format: { type: "json_object" },
-      messages: [
-        { role: "system", content: systemPrompt + `\n\nNotes Context:\n${contextText}` },
-        ...history.map(h => ({ role: h.role === 'ai' ? 'assistant' : 'user', content: h.content })),
-        ...(userAnswer ? [{ role: "user", content: userAnswer }] : [])
-      ],
-    });
+  const completion = await openai.chat.completions.create({
+    model: "gpt-4o-mini",
+    response_format: { type: "json_object" },
+    messages: [
+      { role: "system", content: systemPrompt + `\n\nNotes Context:\n${contextText}` },
+      ...messages.map(m => ({ role: m.role === 'ai' ? 'assistant' : 'user', content: m.content }))
+    ],
+  });
+  const result = JSON.parse(completion.choices[0].message.content);
+  const score = Number(result.performanceScore);
+  return { ...result, performanceScore: Number.isFinite(score) ? Math.max(0, Math.min(10, score)) : 0 };
+};
+
+// Per-question scores, weak concepts and the notes that best cover them.
+const buildVivaReport = async ({ userId, folderId, messages, summary }) => {
+  const questions = [];
+  messages.forEach((m, i) => {
+    if (m.role !== 'ai' || !m.question) return;
+    const answer = messages[i + 1];
+    if (!answer || answer.role !== 'user') return;
+    questions.push({ question: m.question, concept: m.concept, answer: answer.content, score: answer.score, feedback: answer.feedback });
+  });
+
+  const overallScore = questions.length
+    ? Math.round((questions.reduce((sum, q) => sum + q.score, 0) / questions.length) * 10) / 10
+    : 0;
+  const weakConcepts = [...new Set(questions.filter(q => q.score < 6 && q.concept).map(q => q.concept))];
+
+  const suggestedNotes = [];
+  const chunks = weakConcepts.length ? await loadFolderChunks(userId, folderId) : [];
+  for (const concept of weakConcepts) {
+    const [queryEmbedding] = await embedder.embed([concept]);
+    const [best] = rankChunks(concept, queryEmbedding, chunks, 1);
+    if (!best || suggestedNotes.some(n => n.noteId === best.noteId && n.concept === concept)) continue;
+    suggestedNotes.push({ noteId: best.noteId, title: best.noteTitle, concept, start: best.start, end: best.end });
+  }
+
+  return { overallScore, questions, weakConcepts, suggestedNotes, summary: summary || '' };
+};
+
+app.get('/api/study/viva/sessions', authenticateToken, async (req, res) => {
+  try {
+    const { folderId } = req.query;
+    if (!folderId) return res.status(400).json({ error: 'folderId required' });
+
+    const result = await pool.query(
+      `SELECT id, question_limit AS "questionLimit", strictness, status, overall_score AS "overallScore",
+         created_at AS "createdAt", completed_at AS "completedAt"
+       FROM viva_sessions WHERE user_id = $1 AND folder_id = $2
+       ORDER BY created_at DESC`,
+      [req.user.userId, folderId]
+    );
+    res.json(result.rows);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.get('/api/study/viva/sessions/:id', authenticateToken, async (req, res) => {
+  try {
+    const result = await pool.query(
+      `SELECT ${VIVA_COLUMNS} FROM viva_sessions WHERE id = $1 AND user_id = $2`,
+      [req.params.id, req.user.userId]
+    );
+    if (result.rows.length === 0) return res.status(404).json({ error: 'Viva not found' });
+    res.json(result.rows[0]);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// Starts a viva and returns it with the examiner's first question.
+app.post('/api/study/viva/sessions', authenticateToken, async (req, res) => {
+  try {
+    const userId = req.user.userId;
+    const { folderId } = req.body || {};
+    const questionLimit = Math.max(1, Math.min(MAX_VIVA_QUESTIONS, parseInt(req.body?.questionLimit, 10) || 3));
+    const strictness = VIVA_STRICTNESS[req.body?.strictness] ? req.body.strictness : 'standard';
+
+    if (!folderId) return res.status(400).json({ error: 'folderId required' });
+    if (!openai) return res.status(503).json({ error: 'OpenAI API key not configured' });
+
+    const notes = groupChunksByNote(await loadFolderChunks(userId, folderId));
+    if (!notes.length) return res.status(400).json({ error: 'Add some notes to this subject before starting a viva' });
+    const contextText = notes.map(n => n.content).join('\n\n');
 
-    res.json(JSON.parse(completion.choices[0].message.content));
+    const turn = await runVivaExaminer({ contextText, messages: [], answered: 0, questionLimit, strictness });
+    const messages = [{ role: 'ai', content: turn.nextQuestion, question: turn.nextQuestion, concept: turn.conceptTargeted || null }];
+
+    const result = await pool.query(
+      `INSERT INTO viva_sessions (user_id, folder_id, question_limit, strictness, messages)
+       VALUES ($1, $2, $3, $4, $5) RETURNING ${VIVA_COLUMNS}`,
+      [userId, folderId, questionLimit, strictness, JSON.stringify(messages)]
+    );
+    res.json(result.rows[0]);
   } catch (err) {
+    console.error('Viva error:', err);
     res.status(500).json({ error: 'Viva simulator failed' });
   }
 });
 
-app.post('/api/speech-to-text', authenticateToken, upload.single('audio'), async (req, res) => {
+// Scores an answer, records it against the concept it tested and either asks
+// the next question or closes the session with its report.
+app.post('/api/study/viva/sessions/:id/answer', authenticateToken, async (req, res) => {
   try {
-    if (!HF_API_KEY) {
-      return res.status(503).json({ error: 'Hugging Face API key not configured' });
+    const userId = req.user.userId;
+    const answer = String(req.body?.answer || '').trim();
+    if (!answer) return res.status(400).json({ error: 'answer required' });
+    if (!openai) return res.status(503).json({ error: 'OpenAI API key not configured' });
+
+    const existing = await pool.query(
+      'SELECT * FROM viva_sessions WHERE id = $1 AND user_id = $2',
+      [req.params.id, userId]
+    );
+    if (existing.rows.length === 0) return res.status(404).json({ error: 'Viva not found' });
+    const session = existing.rows[0];
+    if (session.status === 'completed') return res.status(409).json({ error: 'This viva is already finished' });
+
+    const messages = [...session.messages, { role: 'user', content: answer }];
+    const answered = messages.filter(m => m.role === 'user').length;
+    const asked = [...session.messages].reverse().find(m => m.role === 'ai' && m.question);
+
+    const notes = groupChunksByNote(await loadFolderChunks(userId, session.folder_id));
+    const contextText = notes.map(n => n.content).join('\n\n');
+    const turn = await runVivaExaminer({
+      contextText,
+      messages,
+      answered,
+      questionLimit: session.question_limit,
+      strictness: session.strictness
+    });
+
+    const answerMsg = messages[messages.length - 1];
+    answerMsg.score = turn.performanceScore;
+    answerMsg.feedback = turn.feedback || '';
+    answerMsg.concept = asked?.concept || null;
+    if (answerMsg.concept) {
+      await recordConceptAttempt(userId, session.folder_id, answerMsg.concept, turn.performanceScore >= 5, Math.round(turn.performanceScore));
     }
 
-    const file = req.file;
-    if (!file || !file.buffer) {
-      return res.status(400).json({ error: 'Audio file is required' });
+    const isFinal = answered >= session.question_limit;
+    if (isFinal) {
+      messages.push({ role: 'ai', content: [turn.feedback, turn.summary].filter(Boolean).join('\n\n'), isFinal: true });
+      const report = await buildVivaReport({ userId, folderId: session.folder_id, messages, summary: turn.summary });
+      const result = await pool.query(
+        `UPDATE viva_sessions SET messages = $1, report = $2, overall_score = $3, status = 'completed', completed_at = CURRENT_TIMESTAMP
+         WHERE id = $4 RETURNING ${VIVA_COLUMNS}`,
+        [JSON.stringify(messages), JSON.stringify(report), report.overallScore, session.id]
+      );
+      return res.json(result.rows[0]);
     }
 
-    const hfRes = await fetch(`https://api-inference.huggingface.co/models/${HF_STT_MODEL}`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${HF_API_KEY}`,
-        'Content-Type': file.mimetype || 'audio/webm'
-      },
-      body: file.buffer
+    messages.push({
+      role: 'ai',
+      content: [turn.feedback, turn.nextQuestion].filter(Boolean).join('\n\n'),
+      question: turn.nextQuestion,
+      concept: turn.conceptTargeted || null
     });
+    const result = await pool.query(
+      `UPDATE viva_sessions SET messages = $1 WHERE id = $2 RETURNING ${VIVA_COLUMNS}`,
+      [JSON.stringify(messages), session.id]
+    );
+    res.json(result.rows[0]);
+  } catch (err) {
+    console.error('Viva error:', err);
+    res.status(500).json({ error: 'Viva simulator failed' });
+  }
+});
 
-    if (!hfRes.ok) {
-      const errText = await hfRes.text();
-      console.error('HF STT error:', hfRes.status, errText);
-      return res.status(502).json({ error: 'Failed to transcribe audio' });
-    }
+app.delete('/api/study/viva/sessions/:id', authenticateToken, async (req, res) => {
+  try {
+    const result = await pool.query(
+      'DELETE FROM viva_sessions WHERE id = $1 AND user_id = $2 RETURNING id',
+      [req.params.id, req.user.userId]
+    );
+    if (result.rows.length === 0) return res.status(404).json({ error: 'Viva not found' });
+    res.json({ success: true });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+const SPEECH_UNAVAILABLE = 'Speech provider not configured';
 
-    const data = await hfRes.json();
-    let text = '';
+app.get('/api/speech/config', authenticateToken, (req, res) => {
+  res.json({ provider: speech ? speech.name : null, voices: speech ? speech.voices : [] });
+});
 
-    if (typeof data === 'string') {
-      text = data;
-    } else if (Array.isArray(data) && data.length && data[0].text) {
-      text = data[0].text;
-    } else if (data.text) {
-      text = data.text;
+app.post('/api/speech-to-text', authenticateToken, upload.single('audio'), async (req, res) => {
+  try {
+    if (!speech) return res.status(503).json({ error: SPEECH_UNAVAILABLE });
+    const file = req.file;
+    if (!file || !file.buffer) {
+      return res.status(400).json({ error: 'Audio file is required' });
     }
 
+    const text = await speech.transcribe(file.buffer, file.mimetype);
     return res.json({ text: (text || '').trim() });
   } catch (err) {
+    if (err.status) return res.status(err.status).json({ error: err.message });
     console.error('Speech-to-text error:', err);
     res.status(500).json({ error: 'Failed to process speech-to-text' });
   }
@@ -837,38 +2302,19 @@ app.post('/api/speech-to-text', authenticateToken, upload.single('audio'), async
 
 app.post('/api/text-to-speech', authenticateToken, async (req, res) => {
   try {
-    if (!HF_API_KEY) {
-      return res.status(503).json({ error: 'Hugging Face API key not configured' });
-    }
-
-    const { text } = req.body || {};
+    if (!speech) return res.status(503).json({ error: SPEECH_UNAVAILABLE });
+    const { text, voice } = req.body || {};
     if (!text || !text.trim()) {
       return res.status(400).json({ error: 'Text is required for TTS' });
     }
 
-    const hfRes = await fetch(`https://api-inference.huggingface.co/models/${HF_TTS_MODEL}`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${HF_API_KEY}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({ inputs: text })
-    });
-
-    if (!hfRes.ok) {
-      const errText = await hfRes.text();
-      console.error('HF TTS error:', hfRes.status, errText);
-      return res.status(502).json({
-        error: 'Failed to generate speech audio from Hugging Face.',
-        providerStatus: hfRes.status,
-        providerMessage: errText
-      });
-    }
-
-    const audioBuffer = await hfRes.arrayBuffer();
-    res.setHeader('Content-Type', 'audio/wav');
-    res.send(Buffer.from(audioBuffer));
+    const { audio, contentType } = await speech.synthesize(text, { voice });
+    res.setHeader('Content-Type', contentType);
+    res.send(audio);
   } catch (err) {
+    if (err.status) {
+      return res.status(err.status).json({ error: err.message, providerMessage: err.detail });
+    }
     console.error('Text-to-speech error:', err);
     res.status(500).json({ error: 'Failed to process text-to-speech' });
   }
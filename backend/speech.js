@@ -0,0 +1,139 @@
+import { toFile } from 'openai';
+
+// Speech providers share one shape:
+//   { name, voices: string[], transcribe: async (buffer, mimeType) => string,
+//     synthesize: async (text, { voice }) => { audio: Buffer, contentType } }
+// Errors carry `status` (HTTP status to report) when the provider refused the request.
+
+const providerError = (message, status, detail) => Object.assign(new Error(message), { status, detail });
+
+export const createHuggingFaceSpeech = ({ apiKey, sttModel, ttsModel }) => ({
+  name: 'huggingface',
+  voices: [],
+  transcribe: async (buffer, mimeType) => {
+    const hfRes = await fetch(`https://api-inference.huggingface.co/models/${sttModel}`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': mimeType || 'audio/webm'
+      },
+      body: buffer
+    });
+
+    if (!hfRes.ok) {
+      const errText = await hfRes.text();
+      console.error('HF STT error:', hfRes.status, errText);
+      throw providerError('Failed to transcribe audio', 502, errText);
+    }
+
+    const data = await hfRes.json();
+    if (typeof data === 'string') return data;
+    if (Array.isArray(data) && data.length && data[0].text) return data[0].text;
+    return data.text || '';
+  },
+  synthesize: async (text) => {
+    const hfRes = await fetch(`https://api-inference.huggingface.co/models/${ttsModel}`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ inputs: text })
+    });
+
+    if (!hfRes.ok) {
+      const errText = await hfRes.text();
+      console.error('HF TTS error:', hfRes.status, errText);
+      throw providerError('Failed to generate speech audio from Hugging Face.', 502, errText);
+    }
+
+    return { audio: Buffer.from(await hfRes.arrayBuffer()), contentType: 'audio/wav' };
+  }
+});
+
+const OPENAI_VOICES = ['alloy', 'echo', 'fable', 'nova', 'onyx', 'shimmer'];
+
+export const createOpenAISpeech = (openai) => ({
+  name: 'openai',
+  voices: OPENAI_VOICES,
+  transcribe: async (buffer, mimeType) => {
+    const extension = (mimeType || 'audio/webm').split('/')[1]?.split(';')[0] || 'webm';
+    const result = await openai.audio.transcriptions.create({
+      file: await toFile(buffer, `speech.${extension}`, { type: mimeType }),
+      model: process.env.OPENAI_STT_MODEL || 'whisper-1'
+    });
+    return result.text || '';
+  },
+  synthesize: async (text, { voice } = {}) => {
+    const response = await openai.audio.speech.create({
+      model: process.env.OPENAI_TTS_MODEL || 'tts-1',
+      voice: OPENAI_VOICES.includes(voice) ? voice : 'nova',
+      input: text,
+      response_format: 'mp3'
+    });
+    return { audio: Buffer.from(await response.arrayBuffer()), contentType: 'audio/mpeg' };
+  }
+});
+
+const SAMPLE_RATE = 16000;
+
+// Mono 16-bit PCM WAV: one short tone per word, so playback length follows the text.
+const toneWav = (text, frequency) => {
+  const words = text.split(/\s+/).filter(Boolean).length || 1;
+  const samplesPerWord = Math.round(SAMPLE_RATE * 0.25);
+  const samples = words * samplesPerWord;
+  const buffer = Buffer.alloc(44 + samples * 2);
+
+  buffer.write('RIFF', 0);
+  buffer.writeUInt32LE(36 + samples * 2, 4);
+  buffer.write('WAVE', 8);
+  buffer.write('fmt ', 12);
+  buffer.writeUInt32LE(16, 16);
+  buffer.writeUInt16LE(1, 20);
+  buffer.writeUInt16LE(1, 22);
+  buffer.writeUInt32LE(SAMPLE_RATE, 24);
+  buffer.writeUInt32LE(SAMPLE_RATE * 2, 28);
+  buffer.writeUInt16LE(2, 32);
+  buffer.writeUInt16LE(16, 34);
+  buffer.write('data', 36);
+  buffer.writeUInt32LE(samples * 2, 40);
+
+  for (let i = 0; i < samples; i++) {
+    const inWord = i % samplesPerWord;
+    // 80% tone, 20% gap between words
+    const amplitude = inWord < samplesPerWord * 0.8 ? 0.2 : 0;
+    const value = Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE) * amplitude;
+    buffer.writeInt16LE(Math.round(value * 32767), 44 + i * 2);
+  }
+  return buffer;
+};
+
+const LOCAL_VOICES = { low: 220, mid: 330, high: 440 };
+
+// Offline stand-in with no external calls. "Transcribes" text/plain uploads by
+// echoing them (anything else becomes an empty transcript) and "speaks" tones,
+// which is enough to exercise the full record → transcribe → speak loop.
+export const createLocalSpeech = () => ({
+  name: 'local',
+  voices: Object.keys(LOCAL_VOICES),
+  transcribe: async (buffer, mimeType) => (mimeType || '').startsWith('text/') ? buffer.toString('utf8') : '',
+  synthesize: async (text, { voice } = {}) => ({
+    audio: toneWav(text, LOCAL_VOICES[voice] || LOCAL_VOICES.mid),
+    contentType: 'audio/wav'
+  })
+});
+
+// SPEECH_PROVIDER picks the provider (huggingface | openai | local); without it
+// the first configured one wins. Returns null when nothing usable is
+// configured, so the speech endpoints answer 503 instead of silently serving
+// the stand-in; that is only used when asked for with 'local'.
+export const createSpeechProvider = (provider, { openai, hfApiKey, hfSttModel, hfTtsModel }) => {
+  const huggingface = () => createHuggingFaceSpeech({ apiKey: hfApiKey, sttModel: hfSttModel, ttsModel: hfTtsModel });
+  if (provider === 'local') return createLocalSpeech();
+  if (provider === 'openai' && openai) return createOpenAISpeech(openai);
+  if (provider === 'huggingface' && hfApiKey) return huggingface();
+  if (!provider && hfApiKey) return huggingface();
+  if (!provider && openai) return createOpenAISpeech(openai);
+  if (provider) console.warn(`Speech provider "${provider}" is not configured; server speech is disabled.`);
+  return null;
+};
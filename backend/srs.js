@@ -0,0 +1,47 @@
+// SM-2 spaced repetition. Each grade maps to an SM-2 quality score (0-5);
+// "again" resets the card and brings it back within the same session.
+export const GRADES = {
+  again: { quality: 1, score: 0 },
+  hard: { quality: 3, score: 5 },
+  good: { quality: 4, score: 8 },
+  easy: { quality: 5, score: 10 }
+};
+
+const MIN_EASE = 1.3;
+const RELEARN_MINUTES = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Returns the card's next schedule; `card` carries ease_factor, interval_days
+// and repetitions as stored in the flashcards table.
+export const scheduleReview = (card, grade, now = new Date()) => {
+  const { quality } = GRADES[grade];
+  const ease = card.ease_factor ?? 2.5;
+  const interval = card.interval_days ?? 0;
+  const repetitions = card.repetitions ?? 0;
+
+  const nextEase = Math.max(MIN_EASE, ease + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+
+  if (quality < 3) {
+    return {
+      easeFactor: nextEase,
+      intervalDays: 0,
+      repetitions: 0,
+      lapsed: repetitions > 0,
+      dueAt: new Date(now.getTime() + RELEARN_MINUTES * 60 * 1000)
+    };
+  }
+
+  let nextInterval;
+  if (repetitions === 0) nextInterval = grade === 'easy' ? 4 : 1;
+  else if (repetitions === 1) nextInterval = grade === 'hard' ? 3 : 6;
+  else if (grade === 'hard') nextInterval = Math.max(interval + 1, Math.round(interval * 1.2));
+  else nextInterval = Math.round(interval * nextEase * (grade === 'easy' ? 1.3 : 1));
+
+  return {
+    easeFactor: nextEase,
+    intervalDays: nextInterval,
+    repetitions: repetitions + 1,
+    lapsed: false,
+    dueAt: new Date(now.getTime() + nextInterval * DAY_MS)
+  };
+};
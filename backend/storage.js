@@ -0,0 +1,36 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+// Storage adapters keep the original files behind uploaded notes:
+//   { name, save: async (buffer) => key, read: async (key) => Buffer, remove: async (key) => void }
+// Keys are opaque to callers and stored on the note.
+
+const DEFAULT_UPLOAD_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'uploads');
+
+export const createLocalStorage = (root = DEFAULT_UPLOAD_DIR) => {
+  // Keys are generated here, but a key read back from the database is still
+  // checked so it can never point outside the upload folder.
+  const fileFor = (key) => {
+    if (!/^[a-f0-9-]+$/.test(key)) throw new Error(`Invalid storage key: ${key}`);
+    return path.join(root, key.slice(0, 2), key);
+  };
+
+  return {
+    name: 'local',
+    save: async (buffer) => {
+      const key = crypto.randomUUID();
+      await fs.mkdir(path.dirname(fileFor(key)), { recursive: true });
+      await fs.writeFile(fileFor(key), buffer);
+      return key;
+    },
+    read: (key) => fs.readFile(fileFor(key)),
+    remove: (key) => fs.rm(fileFor(key), { force: true })
+  };
+};
+
+export const createStorage = (provider, { uploadDir } = {}) => {
+  if (provider && provider !== 'local') console.warn(`Storage provider "${provider}" is not supported; using local disk.`);
+  return createLocalStorage(uploadDir || undefined);
+};
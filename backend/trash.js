@@ -0,0 +1,140 @@
+import pool from './db.js';
+import { folderSubtreeIds } from './folders.js';
+
+// Deleting a note or folder only marks it: `deleted_at` hides it everywhere and
+// `deleted_with` names the trash entry (the note or folder the user deleted)
+// it went out with, so restoring that entry brings back exactly what it took.
+// Quiz history, flashcards and concept stats hang off the folder row, which is
+// kept, so they come back with it. Entries are purged for good after
+// TRASH_RETENTION_DAYS.
+
+export const TRASH_RETENTION_DAYS = Number(process.env.TRASH_RETENTION_DAYS) || 30;
+
+const trashError = (message, status) => Object.assign(new Error(message), { status });
+
+// Returns the ids that were moved to the trash (already-trashed notes are skipped).
+export const trashNotes = async (userId, noteIds) => {
+  const result = await pool.query(
+    `UPDATE notes SET deleted_at = CURRENT_TIMESTAMP, deleted_with = id
+     WHERE user_id = $1 AND id = ANY($2::uuid[]) AND deleted_at IS NULL RETURNING id`,
+    [userId, noteIds]
+  );
+  return result.rows.map(row => row.id);
+};
+
+// Trashes the folder with its topics and their notes. Anything in the subtree
+// that was trashed earlier keeps its own entry.
+export const trashFolder = async (userId, folderId) => {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const folderIds = await folderSubtreeIds(userId, folderId, client);
+    const result = await client.query(
+      `UPDATE folders SET deleted_at = CURRENT_TIMESTAMP, deleted_with = $1
+       WHERE user_id = $2 AND id = ANY($3::uuid[]) AND deleted_at IS NULL RETURNING id`,
+      [folderId, userId, folderIds]
+    );
+    await client.query(
+      `UPDATE notes SET deleted_at = CURRENT_TIMESTAMP, deleted_with = $1
+       WHERE user_id = $2 AND folder_id = ANY($3::uuid[]) AND deleted_at IS NULL`,
+      [folderId, userId, folderIds]
+    );
+    await client.query('COMMIT');
+    return result.rows.length > 0;
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+};
+
+// Days until an entry is purged, counted on the database clock like the purge
+const daysLeft = (alias) => `GREATEST(0, CEIL(EXTRACT(EPOCH FROM (
+    ${alias}.deleted_at + make_interval(days => $2::int) - CURRENT_TIMESTAMP)) / 86400))::int AS days_left`;
+
+// Top-level trash entries, newest first, with the folder each came from.
+export const listTrash = async (userId) => {
+  const [folders, notes] = await Promise.all([
+    pool.query(
+      `SELECT f.id, f.name, f.parent_id, f.deleted_at,
+              (SELECT COUNT(*)::int FROM notes n WHERE n.deleted_with = f.id) AS note_count,
+              ${daysLeft('f')}
+       FROM folders f
+       WHERE f.user_id = $1 AND f.deleted_with = f.id
+       ORDER BY f.deleted_at DESC`,
+      [userId, TRASH_RETENTION_DAYS]
+    ),
+    pool.query(
+      `SELECT n.id, n.title, n.folder_id, n.deleted_at, f.name AS folder_name, ${daysLeft('n')}
+       FROM notes n LEFT JOIN folders f ON f.id = n.folder_id
+       WHERE n.user_id = $1 AND n.deleted_with = n.id
+       ORDER BY n.deleted_at DESC`,
+      [userId, TRASH_RETENTION_DAYS]
+    )
+  ]);
+  return { folders: folders.rows, notes: notes.rows, retentionDays: TRASH_RETENTION_DAYS };
+};
+
+// Restores a trash entry. A note or topic whose folder is still in the trash
+// cannot come back on its own (it would have nowhere to show).
+export const restoreTrashEntry = async (userId, kind, id) => {
+  const table = kind === 'folders' ? 'folders' : 'notes';
+  const parentColumn = kind === 'folders' ? 'parent_id' : 'folder_id';
+  const entry = await pool.query(
+    `SELECT e.id, p.deleted_at AS parent_deleted_at
+     FROM ${table} e LEFT JOIN folders p ON p.id = e.${parentColumn}
+     WHERE e.id = $1 AND e.user_id = $2 AND e.deleted_with = e.id`,
+    [id, userId]
+  );
+  if (entry.rows.length === 0) throw trashError('Not found in the trash', 404);
+  if (entry.rows[0].parent_deleted_at) throw trashError('Its folder is in the trash. Restore the folder first.', 409);
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query('UPDATE folders SET deleted_at = NULL, deleted_with = NULL WHERE user_id = $1 AND deleted_with = $2', [userId, id]);
+    await client.query('UPDATE notes SET deleted_at = NULL, deleted_with = NULL WHERE user_id = $1 AND deleted_with = $2', [userId, id]);
+    await client.query('COMMIT');
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+};
+
+// Deletes trash entries for good: all of them, or only `entryIds`, or only
+// those older than `olderThanDays`. Returns the storage keys of original
+// uploads that belonged to the deleted notes, including notes removed by the
+// folder cascade.
+export const purgeTrash = async ({ userId = null, entryIds = null, olderThanDays = null } = {}) => {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const filters = `deleted_at IS NOT NULL
+      AND ($1::uuid IS NULL OR user_id = $1)
+      AND ($2::uuid[] IS NULL OR deleted_with = ANY($2::uuid[]))
+      AND ($3::int IS NULL OR deleted_at < CURRENT_TIMESTAMP - make_interval(days => $3))`;
+    const params = [userId, entryIds, olderThanDays];
+    const notes = await client.query(
+      `WITH RECURSIVE doomed AS (
+         SELECT id FROM folders WHERE ${filters}
+         UNION ALL
+         SELECT f.id FROM folders f JOIN doomed d ON f.parent_id = d.id
+       )
+       DELETE FROM notes
+       WHERE (${filters}) OR folder_id IN (SELECT id FROM doomed)
+       RETURNING source_key`,
+      params
+    );
+    await client.query(`DELETE FROM folders WHERE ${filters}`, params);
+    await client.query('COMMIT');
+    return notes.rows.map(row => row.source_key).filter(Boolean);
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+};
@@ -0,0 +1,93 @@
+// Fraction of a quote's words that must appear in a window of the source for
+// the quote to count as present. Tolerates small paraphrase, OCR noise and
+// dropped punctuation, not invented sentences.
+const MATCH_THRESHOLD = 0.8;
+
+const wordSpans = (text) => {
+  const spans = [];
+  const re = /[a-z0-9]+/gi;
+  let match;
+  while ((match = re.exec(text || '')) !== null) {
+    spans.push({ word: match[0].toLowerCase(), start: match.index, end: match.index + match[0].length });
+  }
+  return spans;
+};
+
+// Best window of the source with as many words as the snippet, scored by
+// multiset word overlap. Returns character offsets of that window.
+export const locateSnippet = (snippet, text) => {
+  const needle = wordSpans(snippet).map(s => s.word);
+  const hay = wordSpans(text);
+  if (!needle.length || !hay.length) return { score: 0, start: -1, end: -1 };
+
+  const size = Math.min(needle.length, hay.length);
+  const wanted = new Map();
+  for (const w of needle) wanted.set(w, (wanted.get(w) || 0) + 1);
+
+  const window = new Map();
+  let overlap = 0;
+  const add = (w) => {
+    const count = (window.get(w) || 0) + 1;
+    window.set(w, count);
+    if (count <= (wanted.get(w) || 0)) overlap++;
+  };
+  const remove = (w) => {
+    const count = window.get(w);
+    if (count <= (wanted.get(w) || 0)) overlap--;
+    window.set(w, count - 1);
+  };
+
+  for (let i = 0; i < size; i++) add(hay[i].word);
+  let best = { overlap, index: 0 };
+  for (let i = size; i < hay.length; i++) {
+    add(hay[i].word);
+    remove(hay[i - size].word);
+    if (overlap > best.overlap) best = { overlap, index: i - size + 1 };
+  }
+
+  return {
+    score: best.overlap / needle.length,
+    start: hay[best.index].start,
+    end: hay[best.index + size - 1].end
+  };
+};
+
+// Checks each citation's snippet against its own chunk first, then every
+// other retrieved chunk, and marks it verified with offsets of the match.
+export const verifyCitations = (citations, chunks) => citations.map(citation => {
+  const own = chunks.find(c => c.noteId === citation.noteId && c.chunkIndex === citation.chunkIndex);
+  const candidates = own ? [own, ...chunks.filter(c => c !== own)] : chunks;
+
+  let best = null;
+  for (const chunk of candidates) {
+    const match = locateSnippet(citation.snippet, chunk.text);
+    if (!best || match.score > best.match.score) best = { chunk, match };
+    if (match.score >= MATCH_THRESHOLD) break;
+  }
+
+  if (!best || best.match.score < MATCH_THRESHOLD) {
+    return { ...citation, verified: false, matchScore: best ? Math.round(best.match.score * 100) / 100 : 0 };
+  }
+  return {
+    ...citation,
+    noteId: best.chunk.noteId,
+    noteTitle: best.chunk.noteTitle,
+    chunkIndex: best.chunk.chunkIndex,
+    section: best.chunk.section,
+    page: best.chunk.page,
+    start: best.chunk.start + best.match.start,
+    end: best.chunk.start + best.match.end,
+    verified: true,
+    matchScore: Math.round(best.match.score * 100) / 100
+  };
+});
+
+// 'verified' when every citation checks out, 'partial' when some do,
+// 'failed' when the answer cited something and none of it was found, and
+// 'uncited' when it cited nothing, which is no evidence either way.
+export const verificationStatus = (citations) => {
+  if (!citations.length) return 'uncited';
+  const verified = citations.filter(c => c.verified).length;
+  if (verified === citations.length) return 'verified';
+  return verified ? 'partial' : 'failed';
+};
@@ -1,5 +1,5 @@
 import { useState, useEffect, useRef } from 'react';
-import type { FormEvent } from 'react';
+import type { Dispatch, FormEvent, SetStateAction } from 'react';
 import {
   Plus,
   Trash2,
@@ -26,12 +26,72 @@ import {
   RotateCw,
   Trophy,
   AlertCircle,
-  ThumbsUp
+  ThumbsUp,
+  History,
+  MessageSquarePlus,
+  Pencil,
+  Layers,
+  LineChart,
+  Lightbulb,
+  Settings,
+  ListTree,
+  Eye,
+  Columns2,
+  PenLine,
+  Wifi,
+  WifiOff,
+  Download,
+  FileSearch,
+  ChevronRight,
+  ChevronDown,
+  ListChecks,
+  FolderInput,
+  Copy,
+  SlidersHorizontal,
+  Link2
 } from 'lucide-react';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
 import ReactMarkdown from 'react-markdown';
-import remarkGfm from 'remark-gfm';
+import 'katex/dist/katex.min.css';
 import './index.css';
 import LandingApp from './landing/App';
+import { diffLines } from './lib/diff';
+import { folderPath, folderRows, siblingsOf, subtreeIds } from './lib/folders';
+import { findLinks, linkContext, linkifyNoteLinks, linkKey, linkQueryAt, NOTE_LINK_PREFIX } from './lib/links';
+import { parseHeadings, REHYPE_PLUGINS, REMARK_PLUGINS } from './lib/markdown';
+import { pageAtOffset, splitPages, stripPageMarkers } from './lib/pages';
+import { loadPdf, renderPdfPage } from './lib/pdf';
+import {
+  applyQueuedMutations,
+  clearOfflineData,
+  countQueued,
+  dequeueMutation,
+  isLocalId,
+  isNetworkError,
+  newLocalId,
+  queuedMutations,
+  queueMutation,
+  readCache,
+  remapQueuedNoteId,
+  setOfflineUser,
+  writeCache
+} from './lib/offline';
+import type { QueuedMutation } from './lib/offline';
+import { highlightParts, locateMatch, SEARCH_FILE_TYPES } from './lib/search';
+import type { SearchFilters, SearchHit } from './lib/search';
+import { readEventStream } from './lib/sse';
+import { isSupportedUpload, UPLOAD_EXTENSIONS, uploadWithProgress } from './lib/upload';
+import {
+  createServerSpeaker,
+  hasBrowserRecognition,
+  hasBrowserSynthesis,
+  loadSpeechSettings,
+  resolveEngine,
+  saveSpeechSettings,
+  startRecording,
+  transcribeAudio
+} from './lib/speech';
+import type { SpeechEngine, SpeechSettings } from './lib/speech';
 
 interface Note {
   id: string;
@@ -39,21 +99,1350 @@ interface Note {
   title: string;
   content: string;
   updated_at: string;
+  // Bumped by the server on every save; sent back to detect conflicting edits
+  version?: number;
+  index_status?: 'indexed' | 'stale' | 'failed';
+  index_error?: string | null;
+  // Original uploaded file, kept for download and the source viewer
+  source_key?: string | null;
+  source_name?: string | null;
+  source_type?: string | null;
+}
+
+type SaveStatus = 'unsaved' | 'saving' | 'saved' | 'queued' | 'error' | 'conflict';
+
+const SAVE_STATUS_LABELS: Record<SaveStatus, string> = {
+  unsaved: 'Unsaved changes',
+  saving: 'Saving...',
+  saved: 'Saved',
+  queued: 'Saved offline',
+  error: 'Save failed · Retry',
+  conflict: 'Edited elsewhere'
+};
+
+const SAVE_DELAY_MS = 800;
+// navigator.onLine can stay true while the server is down, so queued changes
+// are also retried on a timer
+const SYNC_RETRY_MS = 30000;
+// How long the "moved to trash" toast offers an undo
+const UNDO_TOAST_MS = 8000;
+// Search runs on the server once typing pauses for this long
+const SEARCH_DELAY_MS = 300;
+
+interface NoteRevision {
+  id: string;
+  version: number;
+  title: string;
+  saved_at: string | null;
+  created_at: string;
+  length: number;
+  content?: string;
 }
 
+// A save rejected because the note changed elsewhere: the text this tab tried
+// to save and the newer copy from the server.
+interface NoteConflict {
+  noteId: string;
+  mine: { title: string, content: string };
+  theirs: Note;
+}
+
+const INDEX_STATUS_LABELS: Record<NonNullable<Note['index_status']>, string> = {
+  indexed: 'Indexed',
+  stale: 'Indexing...',
+  failed: 'Index failed'
+};
+
 interface FolderType {
   id: string;
   name: string;
+  // null for a subject; topics point at the folder they sit in
+  parent_id?: string | null;
+  position?: number;
+}
+
+type FolderDrop = { folderId: string, place: 'before' | 'after' | 'inside' };
+
+interface Citation {
+  id: string;
+  // Absent when the model cited a passage that was never retrieved
+  noteId?: string;
+  noteTitle?: string;
+  chunkIndex?: number;
+  // Heading path of the cited section; empty when the note has no headings
+  section?: string;
+  // Source page for notes imported from paged documents such as PDFs
+  page?: number | null;
+  start: number;
+  end: number;
+  snippet: string;
+  verified?: boolean;
+  matchScore?: number;
+}
+
+// Citation on generated study material; note fields are present only when the
+// quoted evidence was found in the subject's notes.
+interface StudyCitation {
+  id: string;
+  snippet: string;
+  verified: boolean;
+  noteId?: string;
+  noteTitle?: string;
+  section?: string;
+  page?: number | null;
+  start?: number;
+  end?: number;
 }
 
+interface Passage {
+  noteId: string;
+  noteTitle: string;
+  chunkIndex: number;
+  section?: string;
+  page?: number | null;
+  start: number;
+  end: number;
+  text: string;
+  score: number;
+}
+
+// Where in its note a citation points, matching the backend's chunk labels:
+// "p. 12 · Section" for paged imports, else the section or the chunk number.
+const citationLocation = ({ page, section, chunkIndex }: { page?: number | null, section?: string, chunkIndex?: number }) => {
+  if (page) return section ? `p. ${page} · ${section}` : `p. ${page}`;
+  return section || `Chunk ${chunkIndex}`;
+};
+
 interface ChatMessage {
   role: 'user' | 'model';
   content: string;
+  citations?: Citation[];
+  confidence?: 'High' | 'Medium' | 'Low' | null;
+  confidenceScore?: number | null;
+  passages?: Passage[];
+  verification?: 'verified' | 'partial' | 'failed' | 'uncited' | 'none' | null;
+  streaming?: boolean;
+}
+
+interface ChatThread {
+  id: string;
+  folder_id: string;
+  title: string;
+  updated_at: string;
+}
+
+interface Flashcard {
+  id: string;
+  front: string;
+  back: string;
+  concept: string | null;
+  intervalDays: number;
+  repetitions: number;
+  dueAt: string;
+}
+
+interface QuizSession {
+  id: string;
+  title: string;
+  score: number;
+  maxScore: number;
+  retakeOf: string | null;
+  completedAt: string | null;
+  createdAt: string;
+}
+
+interface QuizSessionDetail extends QuizSession {
+  questions: Record<string, unknown>;
+  mcqAnswers: Record<string, string>;
+  saqAnswers: Record<number, string>;
+  saqResults: Record<number, { score: number, feedback: string }>;
+}
+
+interface QuizOptions {
+  counts: { mcq: number, saq: number, trueFalse: number, fillBlank: number, multiSelect: number, flashcards: number };
+  difficulty: 'easy' | 'moderate' | 'hard';
+  noteIds: string[];
+}
+
+const DEFAULT_QUIZ_OPTIONS: QuizOptions = {
+  counts: { mcq: 5, saq: 3, trueFalse: 0, fillBlank: 0, multiSelect: 0, flashcards: 5 },
+  difficulty: 'moderate',
+  noteIds: []
+};
+
+const QUIZ_COUNT_FIELDS: { type: keyof QuizOptions['counts'], label: string }[] = [
+  { type: 'mcq', label: 'Multiple choice' },
+  { type: 'multiSelect', label: 'Multi-select' },
+  { type: 'trueFalse', label: 'True / false' },
+  { type: 'fillBlank', label: 'Fill in the blank' },
+  { type: 'saq', label: 'Short answer' },
+  { type: 'flashcards', label: 'Flashcards' }
+];
+
+// Auto-marked question types share one answers map; the prefix keeps keys
+// apart (MCQs use bare indexes, as saved sessions always have).
+const OBJECTIVE_TYPES = {
+  mcqs: { prefix: '' },
+  true_false_questions: { prefix: 'tf-' },
+  fill_blank_questions: { prefix: 'fib-' },
+  multi_select_questions: { prefix: 'ms-' }
+};
+
+interface TrueFalseItem {
+  statement: string;
+  concept: string;
+  answer: boolean;
+  explanation?: string;
+  citations?: (StudyCitation | string)[];
+}
+
+interface FillBlankItem {
+  sentence: string;
+  concept: string;
+  answer: string;
+  accepted_answers?: string[];
+  explanation?: string;
+  citations?: (StudyCitation | string)[];
+}
+
+interface MultiSelectItem {
+  question: string;
+  concept: string;
+  options: Record<string, string>;
+  correct_answers: string[];
+  explanation?: string;
+  citations?: (StudyCitation | string)[];
+}
+
+const normalizeBlank = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+interface LayeredExplanationData {
+  concept: string;
+  notFound: boolean;
+  message?: string;
+  intuition?: string;
+  technical?: string;
+  deepDive?: string;
+  citations?: Record<ExplanationLayer, Citation[]>;
+}
+
+type ExplanationLayer = 'intuition' | 'technical' | 'deepDive';
+
+const EXPLANATION_LAYERS: { layer: ExplanationLayer, label: string }[] = [
+  { layer: 'intuition', label: 'Intuition' },
+  { layer: 'technical', label: 'Exam-Ready' },
+  { layer: 'deepDive', label: 'Deep Dive' }
+];
+
+interface VivaMessage {
+  role: 'ai' | 'user';
+  content: string;
+  concept?: string | null;
+  score?: number;
+  feedback?: string;
+  isFinal?: boolean;
+}
+
+interface VivaReport {
+  overallScore: number;
+  questions: { question: string, concept: string | null, answer: string, score: number, feedback: string }[];
+  weakConcepts: string[];
+  suggestedNotes: { noteId: string, title: string, concept: string, start: number, end: number }[];
+  summary: string;
+}
+
+interface VivaSession {
+  id: string;
+  questionLimit: number;
+  strictness: VivaStrictness;
+  status: 'active' | 'completed';
+  messages?: VivaMessage[];
+  report?: VivaReport | null;
+  overallScore: number | null;
+  createdAt: string;
+  completedAt: string | null;
 }
 
-const MAX_FOLDERS = 3;
+type VivaStrictness = 'lenient' | 'standard' | 'strict';
+
+const VIVA_LENGTHS = [3, 5, 7, 10];
+const VIVA_SPEAKING_IDX = -2;
+const VIVA_SILENCE_MS = 2500;
+const PUSH_TO_TALK_HOLD_MS = 400;
+
+const VIVA_STRICTNESS_LABELS: Record<VivaStrictness, string> = {
+  lenient: 'Generous partial credit',
+  standard: 'Accurate, complete answers',
+  strict: 'Precise terminology, no hedging'
+};
+
+type FlashcardGrade = 'again' | 'hard' | 'good' | 'easy';
+
+const FLASHCARD_GRADES: { grade: FlashcardGrade, label: string, hint: string }[] = [
+  { grade: 'again', label: 'Again', hint: 'Forgot it' },
+  { grade: 'hard', label: 'Hard', hint: 'Recalled with effort' },
+  { grade: 'good', label: 'Good', hint: 'Recalled' },
+  { grade: 'easy', label: 'Easy', hint: 'Instant recall' }
+];
+
 const API_URL = 'http://localhost:5001/api';
 
+function ThreadList({ threads, activeThreadId, onSelect, onCreate, onRename, onDelete }: {
+  threads: ChatThread[],
+  activeThreadId: string | null,
+  onSelect: (thread: ChatThread) => void,
+  onCreate: () => void,
+  onRename: (thread: ChatThread) => void,
+  onDelete: (thread: ChatThread) => void
+}) {
+  return (
+    <div className="thread-list">
+      <button type="button" className="thread-item new" onClick={onCreate}>
+        <MessageSquarePlus size={14} /> New conversation
+      </button>
+      {threads.length === 0 ? (
+        <div className="thread-empty">No saved conversations for this subject yet.</div>
+      ) : (
+        threads.map(thread => (
+          <div
+            key={thread.id}
+            className={`thread-item ${thread.id === activeThreadId ? 'active' : ''}`}
+            onClick={() => onSelect(thread)}
+          >
+            <span className="truncate" style={{ flex: 1 }}>{thread.title}</span>
+            <button className="icon-btn" onClick={(e) => { e.stopPropagation(); onRename(thread); }} title="Rename conversation">
+              <Pencil size={12} />
+            </button>
+            <button className="icon-btn danger" onClick={(e) => { e.stopPropagation(); onDelete(thread); }} title="Delete conversation">
+              <Trash2 size={12} />
+            </button>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
+
+function EvidenceSummary({ message, onOpen }: { message: ChatMessage, onOpen: (passage: Passage) => void }) {
+  const [showPassages, setShowPassages] = useState(false);
+  if (!message.confidence) return null;
+
+  const level = message.confidence.toLowerCase();
+  const passages = message.passages || [];
+
+  return (
+    <div className="evidence-summary">
+      <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', flexWrap: 'wrap' }}>
+        <span
+          className={`confidence-badge ${level}`}
+          title="Derived from how well the retrieved passages match your question and how much of the answer is cited"
+        >
+          {message.confidence === 'Low' && <AlertCircle size={12} />}
+          {message.confidence} confidence
+          {message.confidenceScore != null && ` · ${Math.round(message.confidenceScore * 100)}%`}
+        </span>
+        {passages.length > 0 && (
+          <button type="button" className="passages-toggle" onClick={() => setShowPassages(!showPassages)}>
+            {showPassages ? 'Hide retrieved passages' : 'Show retrieved passages'}
+          </button>
+        )}
+      </div>
+      {message.confidence === 'Low' && (
+        <div className="low-confidence-note">
+          The retrieved notes only weakly support this answer. Check the passages before relying on it.
+        </div>
+      )}
+      {showPassages && (
+        <div className="retrieved-passages">
+          {passages.map((passage, i) => (
+            <button key={i} type="button" className="retrieved-passage" onClick={() => onOpen(passage)}>
+              <span className="retrieved-passage-title">
+                {passage.noteTitle} · {citationLocation(passage)}
+                <span style={{ opacity: 0.6 }}>match {Math.round(passage.score * 100)}%</span>
+              </span>
+              <span className="retrieved-passage-text">{passage.text}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function StudyCitations({ citations, onOpen }: { citations?: (StudyCitation | string)[], onOpen: (citation: Pick<Citation, 'noteId' | 'start' | 'end'>) => void }) {
+  if (!citations || citations.length === 0) return null;
+
+  return (
+    <div className="citation-chips">
+      {citations.map((cit, i) => typeof cit === 'string' ? (
+        <span key={i} className="citation-chip">{cit}</span>
+      ) : (
+        <button
+          key={i}
+          type="button"
+          className={`citation-chip ${cit.verified ? '' : 'unverified'}`}
+          disabled={!cit.noteId}
+          onClick={() => cit.noteId && onOpen({ noteId: cit.noteId, start: cit.start ?? 0, end: cit.end ?? 0 })}
+          title={cit.verified ? `"${cit.snippet}"\n\nQuote verified in ${cit.noteTitle}${cit.page || cit.section ? `, ${citationLocation(cit)}` : ''}` : `"${cit.snippet}"\n\nThis quote could not be found in your notes.`}
+        >
+          <span className="citation-chip-number">{cit.id.replace(/[[\]]/g, '')}</span>
+          <span className="truncate">{cit.verified ? cit.noteTitle : 'Unverified quote'}</span>
+          {cit.verified ? <ShieldCheck size={12} className="citation-chip-mark" /> : <AlertCircle size={12} className="citation-chip-mark" />}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function FlashcardReview({ card, remaining, reviewed, showAnswer, onReveal, onGrade }: {
+  card?: Flashcard,
+  remaining: number,
+  reviewed: number,
+  showAnswer: boolean,
+  onReveal: () => void,
+  onGrade: (grade: FlashcardGrade) => void
+}) {
+  if (!card) {
+    return (
+      <div style={{ padding: '3rem', border: '1px dashed rgba(42, 37, 41, 0.2)', borderRadius: '24px', textAlign: 'center' }}>
+        <Trophy size={28} style={{ margin: '0 auto 1rem', opacity: 0.6 }} />
+        <h3 style={{ margin: '0 0 0.5rem' }}>All caught up</h3>
+        <p style={{ margin: 0, color: 'var(--text-secondary)' }}>
+          {reviewed > 0
+            ? `You reviewed ${reviewed} card${reviewed === 1 ? '' : 's'}. Come back when more are due.`
+            : 'No flashcards are due today. Generate a Practice Quiz to add cards to this deck.'}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flashcard-review">
+      <div className="flashcard-review-meta">
+        <span>{remaining} left today</span>
+        {card.concept && <span>{card.concept}</span>}
+      </div>
+      <div className="flashcard-review-card" onClick={showAnswer ? undefined : onReveal}>
+        <p className="flashcard-review-front">{card.front}</p>
+        {showAnswer ? (
+          <p className="flashcard-review-back">{card.back}</p>
+        ) : (
+          <span className="flashcard-review-hint"><RotateCw size={14} /> Click to show answer</span>
+        )}
+      </div>
+      {showAnswer && (
+        <div className="flashcard-grades">
+          {FLASHCARD_GRADES.map(({ grade, label, hint }) => (
+            <button key={grade} type="button" className={`flashcard-grade ${grade}`} onClick={() => onGrade(grade)}>
+              <strong>{label}</strong>
+              <span>{hint}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Percentage score of each completed quiz, oldest first.
+function ScoreChart({ sessions }: { sessions: QuizSession[] }) {
+  const points = sessions
+    .filter(s => s.completedAt && s.maxScore > 0)
+    .sort((a, b) => new Date(a.completedAt!).getTime() - new Date(b.completedAt!).getTime())
+    .map(s => ({ id: s.id, title: s.title, date: s.completedAt!, pct: Math.round((s.score / s.maxScore) * 100) }));
+
+  if (points.length === 0) {
+    return <p className="score-chart-empty">Finish a quiz to start tracking your scores.</p>;
+  }
+
+  const width = 600;
+  const height = 180;
+  const pad = 24;
+  const x = (i: number) => points.length === 1 ? width / 2 : pad + (i * (width - pad * 2)) / (points.length - 1);
+  const y = (pct: number) => height - pad - (pct / 100) * (height - pad * 2);
+
+  return (
+    <svg className="score-chart" viewBox={`0 0 ${width} ${height}`} role="img" aria-label="Quiz scores over time">
+      {[0, 50, 100].map(pct => (
+        <g key={pct}>
+          <line x1={pad} x2={width - pad} y1={y(pct)} y2={y(pct)} className="score-chart-grid" />
+          <text x={0} y={y(pct) + 4} className="score-chart-label">{pct}</text>
+        </g>
+      ))}
+      <polyline points={points.map((p, i) => `${x(i)},${y(p.pct)}`).join(' ')} className="score-chart-line" />
+      {points.map((p, i) => (
+        <circle key={p.id} cx={x(i)} cy={y(p.pct)} r={4} className="score-chart-point">
+          <title>{`${p.title} · ${new Date(p.date).toLocaleDateString()} · ${p.pct}%`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+}
+
+function ExplainConceptButton({ concept, onExplain }: { concept?: string, onExplain?: (concept: string) => void }) {
+  if (!concept || !onExplain) return null;
+  return (
+    <button type="button" className="explain-concept-btn" onClick={() => onExplain(concept)}>
+      <Lightbulb size={14} /> Explain {concept}
+    </button>
+  );
+}
+
+function AnswerExplanation({ correct, correctAnswer, explanation, citations, concept, onOpen, onExplain }: {
+  correct: boolean,
+  correctAnswer?: string,
+  explanation?: string,
+  citations?: (StudyCitation | string)[],
+  concept?: string,
+  onOpen: (citation: Pick<Citation, 'noteId' | 'start' | 'end'>) => void,
+  onExplain?: (concept: string) => void
+}) {
+  return (
+    <div className={`quiz-explanation ${correct ? 'correct' : 'incorrect'}`}>
+      <strong>{correct ? 'Correct.' : `Not quite${correctAnswer ? ` — the answer is ${correctAnswer}` : ''}.`}</strong>
+      {explanation && <p>{explanation}</p>}
+      <StudyCitations citations={citations} onOpen={onOpen} />
+      <ExplainConceptButton concept={concept} onExplain={onExplain} />
+    </div>
+  );
+}
+
+const scoreColor = (score: number) => score >= 8 ? '#22c55e' : score >= 5 ? '#eab308' : '#ef4444';
+
+function VivaReportView({ session, onOpenNote, onExplain, onShowTranscript, onRestart }: {
+  session: VivaSession,
+  onOpenNote: (citation: Pick<Citation, 'noteId' | 'start' | 'end'>) => void,
+  onExplain: (concept: string) => void,
+  onShowTranscript: () => void,
+  onRestart: () => void
+}) {
+  const report = session.report;
+  if (!report) return null;
+
+  return (
+    <div className="viva-report">
+      <div className="viva-report-score" style={{ borderColor: scoreColor(report.overallScore) }}>
+        <span>{report.overallScore}</span>/10
+        <small>{session.questionLimit} questions · {session.strictness}</small>
+      </div>
+      {report.summary && <p className="viva-report-summary">{report.summary}</p>}
+
+      <h4>Per-question scores</h4>
+      <div className="viva-report-questions">
+        {report.questions.map((q, i) => (
+          <div key={i} className="viva-report-question">
+            <div className="viva-report-question-head">
+              <strong>Q{i + 1}. {q.question}</strong>
+              <span style={{ color: scoreColor(q.score) }}>{q.score}/10</span>
+            </div>
+            {q.concept && <span className="quiz-history-tag">{q.concept}</span>}
+            <p><em>Your answer:</em> {q.answer}</p>
+            {q.feedback && <p>{q.feedback}</p>}
+          </div>
+        ))}
+      </div>
+
+      {report.weakConcepts.length > 0 && (
+        <>
+          <h4>Weak concepts</h4>
+          <div className="viva-report-chips">
+            {report.weakConcepts.map(concept => (
+              <button key={concept} type="button" className="explain-concept-btn" onClick={() => onExplain(concept)}>
+                <Lightbulb size={14} /> {concept}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+
+      {report.suggestedNotes.length > 0 && (
+        <>
+          <h4>Suggested notes to revise</h4>
+          <div className="viva-report-chips">
+            {report.suggestedNotes.map(note => (
+              <button key={`${note.noteId}-${note.concept}`} type="button" className="citation-chip" onClick={() => onOpenNote(note)}>
+                <FileText size={12} />
+                <span className="truncate">{note.title}</span>
+                <span className="citation-chip-meta">{note.concept}</span>
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+
+      <div className="modal-actions" style={{ marginTop: '2rem' }}>
+        <button className="btn btn-secondary" onClick={onShowTranscript}>View Transcript</button>
+        <button className="btn btn-primary" onClick={onRestart}>New Viva</button>
+      </div>
+    </div>
+  );
+}
+
+type EditorView = 'write' | 'split' | 'preview';
+
+const EDITOR_VIEWS: { view: EditorView, label: string, Icon: typeof PenLine }[] = [
+  { view: 'write', label: 'Write markdown', Icon: PenLine },
+  { view: 'split', label: 'Write with live preview', Icon: Columns2 },
+  { view: 'preview', label: 'Preview', Icon: Eye }
+];
+
+const SPEECH_ENGINE_LABELS: Record<SpeechEngine, string> = {
+  auto: 'Automatic (browser when supported)',
+  browser: 'Browser speech',
+  server: 'Server speech'
+};
+
+function SpeechSettingsDialog({ initial, serverVoices, serverProvider, onTest, onSave, onClose }: {
+  initial: SpeechSettings,
+  serverVoices: string[],
+  serverProvider: string | null,
+  onTest: (settings: SpeechSettings) => void,
+  onSave: (settings: SpeechSettings) => void,
+  onClose: () => void
+}) {
+  const [settings, setSettings] = useState(initial);
+  const [browserVoices, setBrowserVoices] = useState<SpeechSynthesisVoice[]>(() =>
+    hasBrowserSynthesis() ? window.speechSynthesis.getVoices() : []
+  );
+
+  // Browsers load their voice list asynchronously
+  useEffect(() => {
+    if (!hasBrowserSynthesis()) return;
+    const update = () => setBrowserVoices(window.speechSynthesis.getVoices());
+    window.speechSynthesis.addEventListener('voiceschanged', update);
+    return () => window.speechSynthesis.removeEventListener('voiceschanged', update);
+  }, []);
+
+  const ttsEngine = resolveEngine(settings.engine, 'tts');
+  const voices = ttsEngine === 'browser' ? browserVoices.map(v => v.name) : serverVoices;
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content speech-settings" onClick={e => e.stopPropagation()}>
+        <h3>Voice Settings</h3>
+        <div className="quiz-config-label">Speech engine</div>
+        <select
+          className="modal-input"
+          value={settings.engine}
+          onChange={e => setSettings({ engine: e.target.value as SpeechEngine, voice: '' })}
+        >
+          {(Object.keys(SPEECH_ENGINE_LABELS) as SpeechEngine[]).map(engine => (
+            <option key={engine} value={engine}>{SPEECH_ENGINE_LABELS[engine]}</option>
+          ))}
+        </select>
+        <p className="speech-settings-note">
+          Listening: {resolveEngine(settings.engine, 'stt') === 'browser' ? 'browser' : 'server'}
+          {!hasBrowserRecognition() && ' (this browser has no speech recognition)'}
+          {' · '}Speaking: {ttsEngine}
+          {serverProvider && ` · Server provider: ${serverProvider}`}
+        </p>
+
+        <div className="quiz-config-label">Voice</div>
+        <select
+          className="modal-input"
+          value={settings.voice}
+          onChange={e => setSettings(prev => ({ ...prev, voice: e.target.value }))}
+        >
+          <option value="">Default voice</option>
+          {voices.map(voice => <option key={voice} value={voice}>{voice}</option>)}
+        </select>
+
+        <div className="modal-actions">
+          <button type="button" className="btn btn-secondary" onClick={() => onTest(settings)}>
+            <Volume2 size={14} /> Test
+          </button>
+          <button type="button" className="btn btn-secondary" onClick={onClose}>Cancel</button>
+          <button type="button" className="btn btn-primary" onClick={() => onSave(settings)}>Save</button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Three explanation layers revealed one at a time; each unlocks the next.
+function LayeredExplanation({ concept, data, loading, error, onClose, onOpen }: {
+  concept: string,
+  data: LayeredExplanationData | null,
+  loading: boolean,
+  error: string | null,
+  onClose: () => void,
+  onOpen: (citation: Citation) => void
+}) {
+  const [unlocked, setUnlocked] = useState(1);
+  const [active, setActive] = useState<ExplanationLayer>('intuition');
+
+  const revealNext = () => {
+    const next = EXPLANATION_LAYERS[unlocked];
+    if (!next) return;
+    setUnlocked(unlocked + 1);
+    setActive(next.layer);
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content layered-explain" onClick={e => e.stopPropagation()}>
+        <div className="layered-explain-header">
+          <div>
+            <span className="layered-explain-kicker"><Lightbulb size={14} /> Explain this concept</span>
+            <h3>{concept}</h3>
+          </div>
+          <button className="icon-btn" onClick={onClose} aria-label="Close explanation"><X size={16} /></button>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center gap-2 py-4">
+            <div className="w-4 h-4 border-2 border-charcoal/20 border-t-charcoal rounded-full animate-spin" />
+            <span className="text-sm opacity-50">Reading your notes...</span>
+          </div>
+        ) : error ? (
+          <p className="layered-explain-empty">{error}</p>
+        ) : data?.notFound ? (
+          <p className="layered-explain-empty">{data.message}</p>
+        ) : data ? (
+          <>
+            <div className="layered-explain-tabs" role="tablist">
+              {EXPLANATION_LAYERS.map(({ layer, label }, i) => (
+                <button
+                  key={layer}
+                  role="tab"
+                  aria-selected={active === layer}
+                  className={active === layer ? 'active' : ''}
+                  disabled={i >= unlocked}
+                  onClick={() => setActive(layer)}
+                >
+                  {i + 1}. {label}
+                </button>
+              ))}
+            </div>
+            <div className="layered-explain-body prose max-w-none text-sm">
+              <ReactMarkdown remarkPlugins={REMARK_PLUGINS} rehypePlugins={REHYPE_PLUGINS}>{data[active] || ''}</ReactMarkdown>
+            </div>
+            <CitationChips citations={data.citations?.[active]} onOpen={onOpen} />
+            {unlocked < EXPLANATION_LAYERS.length && (
+              <button className="btn btn-primary layered-explain-next" onClick={revealNext}>
+                Go deeper: {EXPLANATION_LAYERS[unlocked].label} <ArrowRight size={14} />
+              </button>
+            )}
+          </>
+        ) : null}
+      </div>
+    </div>
+  );
+}
+
+function TrueFalseQuestion({ question, answer, onAnswer, onOpen, onExplain }: {
+  question: TrueFalseItem,
+  answer?: string,
+  onAnswer: (answer: string, correct: boolean) => void,
+  onOpen: (citation: Pick<Citation, 'noteId' | 'start' | 'end'>) => void,
+  onExplain?: (concept: string) => void
+}) {
+  const correctValue = String(question.answer);
+
+  return (
+    <div className="quiz-card">
+      <h4>{question.statement}</h4>
+      <div className="quiz-options two-up">
+        {['true', 'false'].map(value => (
+          <button
+            key={value}
+            disabled={answer !== undefined}
+            onClick={() => onAnswer(value, value === correctValue)}
+            className={`quiz-option ${answer !== undefined && value === correctValue ? 'correct' : ''} ${answer === value && value !== correctValue ? 'incorrect' : ''}`}
+          >
+            {value === 'true' ? 'True' : 'False'}
+          </button>
+        ))}
+      </div>
+      {answer !== undefined && (
+        <AnswerExplanation
+          correct={answer === correctValue}
+          explanation={question.explanation}
+          citations={question.citations}
+          concept={question.concept}
+          onOpen={onOpen}
+          onExplain={onExplain}
+        />
+      )}
+    </div>
+  );
+}
+
+function FillBlankQuestion({ question, answer, onAnswer, onOpen, onExplain }: {
+  question: FillBlankItem,
+  answer?: string,
+  onAnswer: (answer: string, correct: boolean) => void,
+  onOpen: (citation: Pick<Citation, 'noteId' | 'start' | 'end'>) => void,
+  onExplain?: (concept: string) => void
+}) {
+  const [draft, setDraft] = useState('');
+  const isCorrect = (value: string) =>
+    [question.answer, ...(question.accepted_answers || [])].some(a => normalizeBlank(a) === normalizeBlank(value));
+  const [before, ...rest] = question.sentence.split('____');
+
+  return (
+    <div className="quiz-card">
+      <h4>
+        {before}
+        <span className={`quiz-blank ${answer === undefined ? '' : isCorrect(answer) ? 'correct' : 'incorrect'}`}>
+          {answer ?? '____'}
+        </span>
+        {rest.join('____')}
+      </h4>
+      {answer === undefined ? (
+        <form
+          className="quiz-blank-form"
+          onSubmit={e => { e.preventDefault(); if (draft.trim()) onAnswer(draft.trim(), isCorrect(draft)); }}
+        >
+          <input value={draft} onChange={e => setDraft(e.target.value)} placeholder="Type the missing term..." />
+          <button type="submit" className="btn btn-primary" disabled={!draft.trim()}>Check</button>
+        </form>
+      ) : (
+        <AnswerExplanation
+          correct={isCorrect(answer)}
+          correctAnswer={`"${question.answer}"`}
+          explanation={question.explanation}
+          citations={question.citations}
+          concept={question.concept}
+          onOpen={onOpen}
+          onExplain={onExplain}
+        />
+      )}
+    </div>
+  );
+}
+
+function MultiSelectQuestion({ question, answer, onAnswer, onOpen, onExplain }: {
+  question: MultiSelectItem,
+  answer?: string,
+  onAnswer: (answer: string, correct: boolean) => void,
+  onOpen: (citation: Pick<Citation, 'noteId' | 'start' | 'end'>) => void,
+  onExplain?: (concept: string) => void
+}) {
+  const [selected, setSelected] = useState<string[]>([]);
+  const correctKey = [...question.correct_answers].sort().join(',');
+  const chosen = answer !== undefined ? answer.split(',') : selected;
+
+  const toggle = (key: string) =>
+    setSelected(prev => prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]);
+
+  return (
+    <div className="quiz-card">
+      <h4>{question.question}</h4>
+      <p className="quiz-hint">Select all that apply.</p>
+      <div className="quiz-options">
+        {Object.entries(question.options).map(([key, value]) => {
+          const isRight = question.correct_answers.includes(key);
+          return (
+            <button
+              key={key}
+              disabled={answer !== undefined}
+              onClick={() => toggle(key)}
+              className={`quiz-option ${chosen.includes(key) ? 'selected' : ''} ${answer !== undefined && isRight ? 'correct' : ''} ${answer !== undefined && chosen.includes(key) && !isRight ? 'incorrect' : ''}`}
+            >
+              <span style={{ fontWeight: 800, marginRight: '1rem', opacity: 0.3 }}>{key}</span>
+              {value}
+            </button>
+          );
+        })}
+      </div>
+      {answer === undefined ? (
+        <button
+          className="btn btn-primary"
+          style={{ marginTop: '1.5rem' }}
+          disabled={selected.length === 0}
+          onClick={() => { const value = [...selected].sort().join(','); onAnswer(value, value === correctKey); }}
+        >
+          Submit Answer
+        </button>
+      ) : (
+        <AnswerExplanation
+          correct={answer === correctKey}
+          correctAnswer={question.correct_answers.join(', ')}
+          explanation={question.explanation}
+          citations={question.citations}
+          concept={question.concept}
+          onOpen={onOpen}
+          onExplain={onExplain}
+        />
+      )}
+    </div>
+  );
+}
+
+function QuizConfigDialog({ notes, initial, onClose, onGenerate }: {
+  notes: Note[],
+  initial: QuizOptions,
+  onClose: () => void,
+  onGenerate: (options: QuizOptions) => void
+}) {
+  const [options, setOptions] = useState<QuizOptions>(initial);
+  const total = Object.values(options.counts).reduce((sum, n) => sum + n, 0);
+
+  const setCount = (type: keyof QuizOptions['counts'], value: number) =>
+    setOptions(prev => ({ ...prev, counts: { ...prev.counts, [type]: Math.max(0, Math.min(15, value || 0)) } }));
+
+  const toggleNote = (id: string) =>
+    setOptions(prev => ({
+      ...prev,
+      noteIds: prev.noteIds.includes(id) ? prev.noteIds.filter(n => n !== id) : [...prev.noteIds, id]
+    }));
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content quiz-config" onClick={e => e.stopPropagation()}>
+        <h3>New Quiz</h3>
+        <form onSubmit={e => { e.preventDefault(); onGenerate(options); }}>
+          <div className="quiz-config-label">Questions</div>
+          <div className="quiz-config-counts">
+            {QUIZ_COUNT_FIELDS.map(({ type, label }) => (
+              <label key={type}>
+                <span>{label}</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={15}
+                  value={options.counts[type]}
+                  onChange={e => setCount(type, parseInt(e.target.value, 10))}
+                />
+              </label>
+            ))}
+          </div>
+
+          <div className="quiz-config-label">Difficulty</div>
+          <div className="quiz-config-difficulty">
+            {(['easy', 'moderate', 'hard'] as const).map(level => (
+              <button
+                key={level}
+                type="button"
+                className={options.difficulty === level ? 'active' : ''}
+                onClick={() => setOptions(prev => ({ ...prev, difficulty: level }))}
+              >
+                {level}
+              </button>
+            ))}
+          </div>
+
+          <div className="quiz-config-label">
+            Notes <span>{options.noteIds.length === 0 ? 'All notes in this subject' : `${options.noteIds.length} selected`}</span>
+          </div>
+          <div className="quiz-config-notes">
+            {notes.length === 0 ? (
+              <p>This subject has no notes yet.</p>
+            ) : notes.map(note => (
+              <label key={note.id}>
+                <input type="checkbox" checked={options.noteIds.includes(note.id)} onChange={() => toggleNote(note.id)} />
+                <span className="truncate">{note.title || 'Untitled Note'}</span>
+              </label>
+            ))}
+          </div>
+
+          <div className="modal-actions">
+            <button type="button" className="btn btn-secondary" onClick={() => setOptions(DEFAULT_QUIZ_OPTIONS)}>
+              Reset
+            </button>
+            <button type="button" className="btn btn-secondary" onClick={onClose}>
+              Cancel
+            </button>
+            <button type="submit" className="btn btn-primary" disabled={total === 0}>
+              Generate
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+function CitationChips({ citations, onOpen }: { citations?: Citation[], onOpen: (citation: Citation) => void }) {
+  if (!citations || citations.length === 0) return null;
+
+  return (
+    <div className="citation-chips">
+      {citations.map(cit => (
+        <button
+          key={cit.id}
+          type="button"
+          className={`citation-chip ${cit.verified === false ? 'unverified' : ''}`}
+          disabled={!cit.noteId}
+          onClick={() => onOpen(cit)}
+          title={`"${cit.snippet}"\n\n${cit.verified === false
+            ? 'This quote could not be found in your notes.'
+            : 'Quote verified in your notes.'}${cit.noteId ? ` Click to open this passage in ${cit.noteTitle}` : ''}`}
+        >
+          <span className="citation-chip-number">{cit.id}</span>
+          <span className="truncate">{cit.noteTitle || 'Unverified quote'}</span>
+          {cit.noteId && <span className="citation-chip-meta truncate">{citationLocation(cit)}</span>}
+          {cit.verified === false
+            ? <AlertCircle size={12} className="citation-chip-mark" />
+            : cit.verified && <ShieldCheck size={12} className="citation-chip-mark" />}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+// Search result text with the matched words marked
+function Highlighted({ text }: { text: string }) {
+  return (
+    <>
+      {highlightParts(text).map((part, i) => part.match ? <mark key={i}>{part.text}</mark> : <span key={i}>{part.text}</span>)}
+    </>
+  );
+}
+
+function ConnectivityStatus({ isOnline, isSyncing, pending, error, onSync }: {
+  isOnline: boolean,
+  isSyncing: boolean,
+  pending: number,
+  error: string | null,
+  onSync: () => void
+}) {
+  const changes = `${pending} ${pending === 1 ? 'change' : 'changes'}`;
+  const label = isSyncing
+    ? `Syncing ${changes}...`
+    : !isOnline
+      ? pending ? `Offline · ${changes} pending` : 'Offline · using saved copy'
+      : pending ? `${changes} waiting to sync` : 'All changes synced';
+
+  return (
+    <>
+      <button
+        type="button"
+        className={`connectivity-status ${isOnline ? 'online' : 'offline'} ${pending ? 'pending' : ''}`}
+        onClick={onSync}
+        disabled={isSyncing || pending === 0}
+        title={pending ? 'Sync now' : isOnline ? 'Connected' : 'Edits are kept on this device until the connection returns'}
+      >
+        {isOnline ? <Wifi size={14} /> : <WifiOff size={14} />}
+        <span className="truncate">{label}</span>
+      </button>
+      {error && <div className="sync-error">{error}</div>}
+    </>
+  );
+}
+
+// Changed lines with two lines of context; longer unchanged runs are collapsed.
+function DiffView({ before, after }: { before: string, after: string }) {
+  const lines = diffLines(before, after);
+  if (!lines.some(line => line.type !== 'same')) {
+    return <p className="diff-empty">No differences.</p>;
+  }
+
+  const visible = lines.map((line, i) =>
+    line.type !== 'same' || lines.slice(Math.max(0, i - 2), i + 3).some(l => l.type !== 'same')
+  );
+  const rows: React.ReactNode[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    if (visible[i]) {
+      const line = lines[i];
+      rows.push(
+        <div key={i} className={`diff-line ${line.type}`}>
+          <span className="diff-marker">{line.type === 'added' ? '+' : line.type === 'removed' ? '−' : ' '}</span>
+          <span>{line.text || ' '}</span>
+        </div>
+      );
+      continue;
+    }
+    let hidden = 0;
+    while (i + hidden < lines.length && !visible[i + hidden]) hidden++;
+    rows.push(<div key={i} className="diff-gap">{hidden} unchanged {hidden === 1 ? 'line' : 'lines'}</div>);
+    i += hidden - 1;
+  }
+  return <div className="diff-view">{rows}</div>;
+}
+
+function NoteConflictDialog({ conflict, onKeepMine, onUseTheirs }: {
+  conflict: NoteConflict,
+  onKeepMine: () => void,
+  onUseTheirs: () => void
+}) {
+  const { mine, theirs } = conflict;
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content note-diff-dialog">
+        <h3>This note was changed elsewhere</h3>
+        <p className="note-diff-hint">
+          Another tab or device saved “{theirs.title || 'Untitled Note'}” after you opened it.
+          Lines marked <span className="diff-legend removed">−</span> are only in the saved copy,
+          lines marked <span className="diff-legend added">+</span> are only in yours.
+        </p>
+        {mine.title !== theirs.title && (
+          <DiffView before={theirs.title || ''} after={mine.title || ''} />
+        )}
+        <DiffView before={theirs.content || ''} after={mine.content || ''} />
+        <div className="modal-actions">
+          <button type="button" className="btn btn-secondary" onClick={onUseTheirs}>Use saved copy</button>
+          <button type="button" className="btn btn-primary" onClick={onKeepMine}>Keep my version</button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function NoteHistoryDialog({ note, revisions, selected, loading, formatDate, onSelect, onRestore, onClose }: {
+  note: Note,
+  revisions: NoteRevision[],
+  selected: NoteRevision | null,
+  loading: boolean,
+  formatDate: (date: string) => string,
+  onSelect: (revision: NoteRevision) => void,
+  onRestore: (revision: NoteRevision) => void,
+  onClose: () => void
+}) {
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content note-history" onClick={e => e.stopPropagation()}>
+        <h3>Revision history</h3>
+        {loading ? (
+          <p className="note-diff-hint">Loading revisions...</p>
+        ) : revisions.length === 0 ? (
+          <p className="note-diff-hint">No earlier versions yet. Versions are kept as you edit, at most one every few minutes.</p>
+        ) : (
+          <div className="note-history-body">
+            <div className="note-history-list">
+              {revisions.map(revision => (
+                <button
+                  key={revision.id}
+                  type="button"
+                  className={`note-history-item ${selected?.id === revision.id ? 'active' : ''}`}
+                  onClick={() => onSelect(revision)}
+                >
+                  <span className="note-history-version">Version {revision.version}</span>
+                  <span className="note-history-date">{formatDate(revision.saved_at || revision.created_at)}</span>
+                  <span className="note-history-date">{revision.length.toLocaleString()} characters</span>
+                </button>
+              ))}
+            </div>
+            <div className="note-history-diff">
+              {selected?.content !== undefined ? (
+                <>
+                  <p className="note-diff-hint">
+                    Changes from version {selected.version} to the current note.
+                  </p>
+                  {selected.title !== note.title && (
+                    <DiffView before={selected.title || ''} after={note.title || ''} />
+                  )}
+                  <DiffView before={selected.content || ''} after={note.content || ''} />
+                </>
+              ) : (
+                <p className="note-diff-hint">Select a version to compare it with the current note.</p>
+              )}
+            </div>
+          </div>
+        )}
+        <div className="modal-actions">
+          <button type="button" className="btn btn-secondary" onClick={onClose}>Close</button>
+          <button
+            type="button"
+            className="btn btn-primary"
+            disabled={selected?.content === undefined}
+            onClick={() => selected && onRestore(selected)}
+          >
+            <RotateCw size={14} /> Restore this version
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Destination picker for moving or copying the selected notes
+function NoteBatchDialog({ mode, count, folders, initialFolderId, onConfirm, onClose }: {
+  mode: 'move' | 'copy',
+  count: number,
+  folders: FolderType[],
+  initialFolderId: string | null,
+  onConfirm: (folderId: string) => void,
+  onClose: () => void
+}) {
+  const [folderId, setFolderId] = useState(initialFolderId);
+  const verb = mode === 'move' ? 'Move' : 'Copy';
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content" onClick={e => e.stopPropagation()}>
+        <h3>{verb} {count} {count === 1 ? 'note' : 'notes'}</h3>
+        <p className="note-diff-hint">Choose the subject or topic to {mode} {count === 1 ? 'it' : 'them'} to.</p>
+        <div className="folder-picker">
+          {folderRows(folders, new Set()).map(({ folder, depth }) => (
+            <button
+              key={folder.id}
+              type="button"
+              className={`folder-picker-item ${folder.id === folderId ? 'active' : ''}`}
+              style={{ paddingLeft: `${0.75 + depth * 1}rem` }}
+              onClick={() => setFolderId(folder.id)}
+            >
+              <Folder size={14} className="folder-icon" fill={folder.id === folderId ? 'currentColor' : 'none'} />
+              <span className="truncate">{folder.name}</span>
+            </button>
+          ))}
+        </div>
+        <div className="modal-actions">
+          <button type="button" className="btn btn-secondary" onClick={onClose}>Cancel</button>
+          <button type="button" className="btn btn-primary" disabled={!folderId} onClick={() => folderId && onConfirm(folderId)}>
+            {verb}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface TrashContents {
+  folders: { id: string, name: string, parent_id: string | null, deleted_at: string, days_left: number, note_count: number }[];
+  notes: { id: string, title: string, folder_id: string, folder_name: string | null, deleted_at: string, days_left: number }[];
+  retentionDays: number;
+}
+
+type TrashEntry = { kind: 'notes' | 'folders', id: string };
+
+function TrashDialog({ trash, formatDate, onRestore, onDelete, onEmpty, onClose }: {
+  trash: TrashContents | 'loading',
+  formatDate: (date: string) => string,
+  onRestore: (entry: TrashEntry) => void,
+  onDelete: (entry: TrashEntry) => void,
+  onEmpty: () => void,
+  onClose: () => void
+}) {
+  const rows = trash === 'loading' ? [] : [
+    ...trash.folders.map(f => ({
+      entry: { kind: 'folders' as const, id: f.id },
+      name: f.name,
+      detail: `${f.parent_id ? 'Topic' : 'Subject'} · ${f.note_count} ${f.note_count === 1 ? 'note' : 'notes'}`,
+      deletedAt: f.deleted_at,
+      daysLeft: f.days_left
+    })),
+    ...trash.notes.map(n => ({
+      entry: { kind: 'notes' as const, id: n.id },
+      name: n.title || 'Untitled Note',
+      detail: n.folder_name ? `Note in ${n.folder_name}` : 'Note',
+      deletedAt: n.deleted_at,
+      daysLeft: n.days_left
+    }))
+  ].sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content trash-dialog" onClick={e => e.stopPropagation()}>
+        <h3>Trash</h3>
+        {trash === 'loading' ? (
+          <p className="note-diff-hint">Loading...</p>
+        ) : rows.length === 0 ? (
+          <p className="note-diff-hint">The trash is empty.</p>
+        ) : (
+          <>
+            <p className="note-diff-hint">Deleted notes and folders are kept for {trash.retentionDays} days, then removed for good.</p>
+            <div className="trash-list">
+              {rows.map(row => (
+                <div key={row.entry.id} className="trash-item">
+                  {row.entry.kind === 'folders' ? <Folder size={16} className="folder-icon" /> : <FileText size={16} className="folder-icon" />}
+                  <div className="trash-item-text">
+                    <span className="truncate">{row.name}</span>
+                    <span className="trash-item-detail">
+                      {row.detail} · deleted {formatDate(row.deletedAt)} · {row.daysLeft} {row.daysLeft === 1 ? 'day' : 'days'} left
+                    </span>
+                  </div>
+                  <button className="icon-btn" onClick={() => onRestore(row.entry)} title="Restore">
+                    <RotateCw size={14} />
+                  </button>
+                  <button className="icon-btn danger" onClick={() => onDelete(row.entry)} title="Delete permanently">
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+        <div className="modal-actions">
+          <button type="button" className="btn btn-secondary" onClick={onClose}>Close</button>
+          <button type="button" className="btn btn-primary" disabled={rows.length === 0} onClick={onEmpty}>
+            Empty trash
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function SourceViewer({ noteId, token, sourceType, page, onPageChange }: {
+  noteId: string,
+  token: string,
+  sourceType: string | null | undefined,
+  page: number,
+  onPageChange: (page: number) => void
+}) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const isPdf = sourceType === 'application/pdf';
+  const isImage = !!sourceType?.startsWith('image/');
+
+  useEffect(() => {
+    if (!isPdf && !isImage) return;
+    let cancelled = false;
+    let loaded: PDFDocumentProxy | null = null;
+    let objectUrl: string | null = null;
+
+    fetch(`${API_URL}/notes/${noteId}/source`, { headers: { 'Authorization': `Bearer ${token}` } })
+      .then(async res => {
+        if (!res.ok) throw new Error((await res.json().catch(() => ({}))).error || 'Could not load the original file');
+        if (isImage) {
+          objectUrl = URL.createObjectURL(await res.blob());
+          if (!cancelled) setImageUrl(objectUrl);
+          return;
+        }
+        loaded = await loadPdf(await res.arrayBuffer());
+        if (cancelled) loaded.destroy();
+        else setPdf(loaded);
+      })
+      .catch(err => { if (!cancelled) setError(err.message); });
+
+    return () => {
+      cancelled = true;
+      loaded?.destroy();
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [noteId, token, isPdf, isImage]);
+
+  const pageCount = pdf?.numPages || 0;
+  const currentPage = Math.min(Math.max(page, 1), pageCount || 1);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!pdf || !canvas) return;
+    renderPdfPage(pdf, currentPage, canvas, canvas.parentElement?.clientWidth || 480)
+      .catch(err => console.error('PDF render error:', err));
+  }, [pdf, currentPage]);
+
+  return (
+    <div className="source-viewer">
+      {isPdf && pageCount > 0 && (
+        <div className="source-viewer-nav">
+          <button type="button" className="icon-btn" disabled={currentPage <= 1} onClick={() => onPageChange(currentPage - 1)} title="Previous page">
+            <ArrowLeft size={16} />
+          </button>
+          <span>Page {currentPage} of {pageCount}</span>
+          <button type="button" className="icon-btn" disabled={currentPage >= pageCount} onClick={() => onPageChange(currentPage + 1)} title="Next page">
+            <ArrowRight size={16} />
+          </button>
+        </div>
+      )}
+      <div className="source-viewer-page">
+        {error ? (
+          <p className="source-viewer-message">{error}</p>
+        ) : !isPdf && !isImage ? (
+          <p className="source-viewer-message">This file type cannot be shown here. Download the original to view it.</p>
+        ) : isPdf ? (
+          pdf ? <canvas ref={canvasRef} /> : <p className="source-viewer-message">Loading original...</p>
+        ) : (
+          imageUrl ? <img src={imageUrl} alt="Original upload" /> : <p className="source-viewer-message">Loading original...</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
 function AuthScreen({ onLogin, onBack }: { onLogin: (token: string, username: string) => void, onBack?: () => void }) {
   const [isLogin, setIsLogin] = useState(true);
   const [username, setUsername] = useState('');
@@ -164,9 +1553,26 @@ function MainApp({ token, username, onLogout }: { token: string, username: strin
   const [activeNoteId, setActiveNoteId] = useState<string | null>(null);
 
   const [searchQuery, setSearchQuery] = useState('');
+  const [searchFilters, setSearchFilters] = useState<SearchFilters>({ scope: 'folder', type: '', from: '', to: '' });
+  const [showSearchFilters, setShowSearchFilters] = useState(false);
+  // Ranked results for the search they were fetched for; hits are null when
+  // the server could not be asked, and the list falls back to a local filter
+  const [searchResults, setSearchResults] = useState<{ key: string, hits: SearchHit[] | null } | null>(null);
+  // Multi-select in the note list for bulk move, copy, delete and export
+  const [isSelectingNotes, setIsSelectingNotes] = useState(false);
+  const [selectedNoteIds, setSelectedNoteIds] = useState<Set<string>>(new Set());
+  const [batchDialog, setBatchDialog] = useState<'move' | 'copy' | null>(null);
+  // Trash dialog contents (null when closed) and the undo offer after a delete
+  const [trash, setTrash] = useState<TrashContents | 'loading' | null>(null);
+  const [undoToast, setUndoToast] = useState<{ message: string, entries: TrashEntry[] } | null>(null);
+  const undoTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
 
-  const [isFolderModalOpen, setIsFolderModalOpen] = useState(false);
+  // Create (optionally under a parent) or, with `folder`, rename
+  const [folderDialog, setFolderDialog] = useState<{ parentId: string | null, folder?: FolderType } | null>(null);
+  const [collapsedFolders, setCollapsedFolders] = useState<Set<string>>(new Set());
+  const [draggedFolderId, setDraggedFolderId] = useState<string | null>(null);
+  const [folderDrop, setFolderDrop] = useState<FolderDrop | null>(null);
   const [newFolderName, setNewFolderName] = useState('');
 
   // AI Chat State
@@ -181,42 +1587,212 @@ function MainApp({ token, username, onLogout }: { token: string, username: strin
   const [assistantMessages, setAssistantMessages] = useState<ChatMessage[]>([]);
   const [isAssistantLoading, setIsAssistantLoading] = useState(false);
 
-  const [isUploading, setIsUploading] = useState(false);
+  // Saved conversations for the active subject, shared by both chat panels
+  const [chatThreads, setChatThreads] = useState<ChatThread[]>([]);
+  const [chatThreadId, setChatThreadId] = useState<string | null>(null);
+  const [assistantThreadId, setAssistantThreadId] = useState<string | null>(null);
+  const [openThreadList, setOpenThreadList] = useState<'chat' | 'assistant' | null>(null);
+
+  // File being imported (of a multi-file batch) and how much of it has been sent
+  const [uploadProgress, setUploadProgress] = useState<{ fileName: string, index: number, total: number, percent: number } | null>(null);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const isUploading = uploadProgress !== null;
 
   // Study Mode State
   const [isStudyMode, setIsStudyMode] = useState(false);
   const [studyData, setStudyData] = useState<any>(null);
   const [isStudyLoading, setIsStudyLoading] = useState(false);
-  const [mcqAnswers, setMcqAnswers] = useState<Record<number, string>>({});
+  // Answers to every auto-marked question, keyed via OBJECTIVE_TYPES prefixes
+  const [mcqAnswers, setMcqAnswers] = useState<Record<string, string>>({});
+  const [quizOptions, setQuizOptions] = useState<QuizOptions>(DEFAULT_QUIZ_OPTIONS);
+  const [isQuizConfigOpen, setIsQuizConfigOpen] = useState(false);
   const [saqAnswers, setSaqAnswers] = useState<Record<number, string>>({});
   const [saqResults, setSaqResults] = useState<Record<number, any>>({});
 
   // New Study Feature States
   const [gapMap, setGapMap] = useState<any[]>([]);
   const [isGapMapLoading, setIsGapMapLoading] = useState(false);
-  const [vivaMessages, setVivaMessages] = useState<any[]>([]);
+  const [vivaSession, setVivaSession] = useState<VivaSession | null>(null);
   const [isVivaLoading, setIsVivaLoading] = useState(false);
-
-  const [vivaQuestionCount, setVivaQuestionCount] = useState(0);
-  const [studySubMode, setStudySubMode] = useState<'menu' | 'quiz' | 'viva' | 'gap-map'>('menu');
+  const [vivaSetup, setVivaSetup] = useState<{ questionLimit: number, strictness: VivaStrictness }>({ questionLimit: 3, strictness: 'standard' });
+  const [vivaHistory, setVivaHistory] = useState<VivaSession[]>([]);
+  const [showVivaTranscript, setShowVivaTranscript] = useState(false);
+  // Hands-free viva: questions are read aloud and the mic opens for the answer
+  const [vivaVoiceMode, setVivaVoiceMode] = useState(false);
+  const [vivaDraft, setVivaDraft] = useState('');
+  const vivaVoiceModeRef = useRef(false);
+  const spokenVivaTurnRef = useRef('');
+  const vivaPressRef = useRef<number | null>(null);
+
+  const [studySubMode, setStudySubMode] = useState<'menu' | 'quiz' | 'viva' | 'gap-map' | 'flashcards' | 'history'>('menu');
   const [flippedFlashcards, setFlippedFlashcards] = useState<Record<number, boolean>>({});
 
+  // Flashcard deck of the active folder and the current "Due today" session
+  const [deckSummary, setDeckSummary] = useState<{ total: number, due: number }>({ total: 0, due: 0 });
+  const [reviewQueue, setReviewQueue] = useState<Flashcard[]>([]);
+  const [isReviewLoading, setIsReviewLoading] = useState(false);
+  const [showFlashcardAnswer, setShowFlashcardAnswer] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+
+  // Saved quiz sessions: the one being answered and the folder's history
+  const [quizSessionId, setQuizSessionId] = useState<string | null>(null);
+  const [quizHistory, setQuizHistory] = useState<QuizSession[]>([]);
+  const [isQuizHistoryLoading, setIsQuizHistoryLoading] = useState(false);
+  const [showMistakesOnly, setShowMistakesOnly] = useState(false);
+
+  // Layered "Explain this concept" viewer
+  const [explainConceptName, setExplainConceptName] = useState<string | null>(null);
+  const [explanation, setExplanation] = useState<LayeredExplanationData | null>(null);
+  const [isExplaining, setIsExplaining] = useState(false);
+  const [explainError, setExplainError] = useState<string | null>(null);
+  const [editorSelection, setEditorSelection] = useState('');
+  const [saveStatus, setSaveStatus] = useState<Record<string, SaveStatus>>({});
+  const [noteConflict, setNoteConflict] = useState<NoteConflict | null>(null);
+  const [noteHistory, setNoteHistory] = useState<{ noteId: string, revisions: NoteRevision[], selected: NoteRevision | null, loading: boolean } | null>(null);
+  // Autosave bookkeeping, read from timers and async saves so kept in refs:
+  // pending debounce timers, the per-note save chain, the last version the
+  // server confirmed, and notes paused until a conflict is resolved
+  const notesRef = useRef<Note[]>([]);
+  const saveTimersRef = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+  const saveChainRef = useRef(new Map<string, Promise<void>>());
+  const serverVersionsRef = useRef(new Map<string, number>());
+  const conflictedNotesRef = useRef(new Set<string>());
+
+  // Offline mode: connection state, changes waiting in the IndexedDB queue,
+  // and whether the cached copy has been loaded (so it is not overwritten
+  // with empty lists on startup)
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [pendingChanges, setPendingChanges] = useState(0);
+  const [isSyncing, setIsSyncing] = useState(false);
+  // What the last sync could not do cleanly, e.g. a note refiled or held back
+  const [syncError, setSyncError] = useState<string | null>(null);
+  const [cacheLoaded, setCacheLoaded] = useState(false);
+  const syncingRef = useRef(false);
+  const [editorView, setEditorView] = useState<EditorView>('write');
+  const [showOutline, setShowOutline] = useState(false);
+  const [showBacklinks, setShowBacklinks] = useState(false);
+  // The [[link]] being typed in the editor, with the highlighted suggestion
+  const [linkSuggest, setLinkSuggest] = useState<{ noteId: string, start: number, query: string, index: number } | null>(null);
+  const previewRef = useRef<HTMLDivElement>(null);
+  // Original-file viewer beside the text; the page applies to one note only
+  const [showSource, setShowSource] = useState(false);
+  const [sourcePage, setSourcePage] = useState<{ noteId: string, page: number } | null>(null);
+
   // Voice States (browser-based STT + TTS)
   const [isListening, setIsListening] = useState(false);
   const [speakingIdx, setSpeakingIdx] = useState<number | null>(null);
   const recognitionRef = useRef<any>(null);
   const sttFinalRef = useRef<string>('');
+  const ttsPendingRef = useRef(0);
+  const [speechSettings, setSpeechSettings] = useState<SpeechSettings>(loadSpeechSettings);
+  const [isSpeechSettingsOpen, setIsSpeechSettingsOpen] = useState(false);
+  // provider is null when the server has no speech provider configured
+  const [serverSpeech, setServerSpeech] = useState<{ provider: string | null, voices: string[] } | null>(null);
+  // Why server speech last failed, shown in the hands-free viva
+  const [speechError, setSpeechError] = useState<string | null>(null);
+  const serverSpeakerRef = useRef<ReturnType<typeof createServerSpeaker> | null>(null);
+
+  // In-flight streamed answers, so they can be cancelled mid-answer
+  const chatAbortRef = useRef<AbortController | null>(null);
+  const assistantAbortRef = useRef<AbortController | null>(null);
+
+  // Citation navigation: passage to select in the editor once the note is open
+  const [highlight, setHighlight] = useState<{ noteId: string, start: number, end: number } | null>(null);
+  const bodyInputRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    notesRef.current = notes;
+  }, [notes]);
+
+  // Warn before leaving with edits that have not reached the server
+  useEffect(() => {
+    const warnUnsaved = (e: BeforeUnloadEvent) => {
+      if (saveTimersRef.current.size > 0 || conflictedNotesRef.current.size > 0) e.preventDefault();
+    };
+    window.addEventListener('beforeunload', warnUnsaved);
+    return () => window.removeEventListener('beforeunload', warnUnsaved);
+  }, []);
 
-  // Fetch Data
+  // Fetch Data: show the cached copy at once, replay changes made offline,
+  // then refresh from the server and keep syncing as the connection changes
   useEffect(() => {
-    fetchFolders();
-    fetchNotes();
+    let cancelled = false;
+    setOfflineUser(username);
+    (async () => {
+      try {
+        const [cachedFolders, cachedNotes] = await Promise.all([readCache<FolderType>('folders'), readCache<Note>('notes')]);
+        if (cancelled) return;
+        if (cachedFolders.length > 0) {
+          setFolders(cachedFolders);
+          setActiveFolderId(prev => prev || (cachedFolders.find(f => !f.parent_id) || cachedFolders[0]).id);
+        }
+        setNotes(cachedNotes);
+        setPendingChanges(await countQueued());
+      } catch (err) { console.error('Offline cache unavailable', err); }
+      if (cancelled) return;
+      setCacheLoaded(true);
+      await syncPendingChanges();
+      fetchFolders();
+      fetchNotes();
+    })();
+
+    const goOnline = () => { syncPendingChanges().then(checkConnection); };
+    const goOffline = () => setIsOnline(false);
+    window.addEventListener('online', goOnline);
+    window.addEventListener('offline', goOffline);
+    const retry = setInterval(() => { if (navigator.onLine) goOnline(); }, SYNC_RETRY_MS);
+    return () => {
+      cancelled = true;
+      window.removeEventListener('online', goOnline);
+      window.removeEventListener('offline', goOffline);
+      clearInterval(retry);
+    };
   }, []);
 
-  // Reset chat when active note changes
+  // Mirror subjects and notes into the offline cache
+  useEffect(() => {
+    if (!cacheLoaded) return;
+    const timer = setTimeout(() => {
+      Promise.all([writeCache('folders', folders), writeCache('notes', notes)])
+        .catch(err => console.error('Failed to update offline cache', err));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [folders, notes, cacheLoaded]);
+
+  // Switching subjects resets both chats and loads that subject's saved threads
   useEffect(() => {
     setChatMessages([]);
-  }, [activeNoteId]);
+    setAssistantMessages([]);
+    setChatThreadId(null);
+    setAssistantThreadId(null);
+    setChatThreads([]);
+    if (!activeFolderId) return;
+
+    let cancelled = false;
+    fetch(`${API_URL}/chat/threads?folderId=${activeFolderId}`, { headers: { 'Authorization': `Bearer ${token}` } })
+      .then(res => res.ok ? res.json() : [])
+      .then(data => { if (!cancelled) setChatThreads(data); })
+      .catch(err => console.error(err));
+    return () => { cancelled = true; };
+  }, [activeFolderId, token]);
+
+  // Select the cited passage once its note is rendered in the editor
+  useEffect(() => {
+    if (!highlight || highlight.noteId !== activeNoteId) return;
+    const textarea = bodyInputRef.current;
+    if (!textarea) return;
+
+    const length = textarea.value.length;
+    const start = Math.min(highlight.start, length);
+    const end = Math.min(highlight.end, length);
+
+    textarea.blur();
+    textarea.setSelectionRange(start, end);
+    textarea.focus();
+    if (length > 0) {
+      textarea.scrollTop = Math.max(0, (start / length) * textarea.scrollHeight - textarea.clientHeight / 2);
+    }
+  }, [highlight, activeNoteId]);
 
   const headers = {
     'Content-Type': 'application/json',
@@ -229,23 +1805,243 @@ function MainApp({ token, username, onLogout }: { token: string, username: strin
       if (res.ok) {
         const data = await res.json();
         setFolders(data);
-        if (data.length > 0 && !activeFolderId) setActiveFolderId(data[0].id);
+        setIsOnline(true);
+        setActiveFolderId(prev => prev && data.some((f: FolderType) => f.id === prev) ? prev : (data.find((f: FolderType) => !f.parent_id) || data[0])?.id ?? null);
       } else if (res.status === 401 || res.status === 403) {
         onLogout();
       }
-    } catch (err) { console.error(err); }
+    } catch (err) {
+      if (isNetworkError(err)) setIsOnline(false);
+      else console.error(err);
+    }
   };
 
+  // Queued offline changes are laid over the server's notes until replayed
   const fetchNotes = async () => {
     try {
       const res = await fetch(`${API_URL}/notes`, { headers });
       if (res.ok) {
-        const data = await res.json();
-        setNotes(data);
+        const data: Note[] = await res.json();
+        const queue = await queuedMutations().catch(() => []);
+        setNotes(applyQueuedMutations(data, queue, m => ({
+          id: m.noteId, folder_id: m.folderId, title: m.title, content: m.content, updated_at: new Date().toISOString()
+        })));
+        setIsOnline(true);
       }
-    } catch (err) { console.error(err); }
+    } catch (err) {
+      if (isNetworkError(err)) setIsOnline(false);
+      else console.error(err);
+    }
+  };
+
+  const checkConnection = async () => {
+    try {
+      const res = await fetch(`${API_URL}/folders`, { headers });
+      setIsOnline(res.ok);
+    } catch {
+      setIsOnline(false);
+    }
+  };
+
+  // The first subject still on the server other than `excludeId`
+  const firstRemainingSubject = async (excludeId: string) => {
+    const res = await fetch(`${API_URL}/folders`, { headers });
+    if (!res.ok) return null;
+    const data: FolderType[] = await res.json();
+    return data.find(f => !f.parent_id && f.id !== excludeId) || null;
+  };
+
+  // Sends one queued change to the server. 'retry' keeps it (and everything
+  // after it) queued; a version conflict opens the conflict dialog instead.
+  const replayMutation = async (mutation: QueuedMutation): Promise<'done' | 'retry' | 'offline'> => {
+    try {
+      if (mutation.type === 'createNote') {
+        const untitled = mutation.title || 'Untitled';
+        const create = (folderId: string) => fetch(`${API_URL}/notes`, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({ folder_id: folderId, title: mutation.title, content: mutation.content })
+        });
+        let res = await create(mutation.folderId);
+        // Its subject was deleted meanwhile: file the note in another subject
+        // rather than lose it
+        let refiledTo: FolderType | null = null;
+        if (res.status >= 400 && res.status < 500) {
+          refiledTo = await firstRemainingSubject(mutation.folderId);
+          if (refiledTo) res = await create(refiledTo.id);
+        }
+        if (!res.ok) {
+          if (res.status < 500) setSyncError(`"${untitled}" could not be saved to the server. It is kept on this device; create a subject and sync again.`);
+          return 'retry';
+        }
+        const created: Note = await res.json();
+        await remapQueuedNoteId(mutation.noteId, created.id);
+        adoptServerNote(mutation.noteId, created);
+        if (refiledTo) setSyncError(`"${untitled}" was saved to ${refiledTo.name} because its subject no longer exists.`);
+        return 'done';
+      }
+
+      // A save still under a local id is for a note that never reached the
+      // server: send it as a new note so the edits are not lost
+      if (mutation.type === 'saveNote' && isLocalId(mutation.noteId)) {
+        const local = notesRef.current.find(n => n.id === mutation.noteId);
+        return replayMutation({
+          seq: mutation.seq,
+          type: 'createNote',
+          noteId: mutation.noteId,
+          folderId: local?.folder_id ?? '',
+          title: mutation.title,
+          content: mutation.content
+        });
+      }
+
+      if (mutation.type === 'saveNote') {
+        const res = await fetch(`${API_URL}/notes/${mutation.noteId}`, {
+          method: 'PUT',
+          headers,
+          body: JSON.stringify({ title: mutation.title, content: mutation.content, version: mutation.version })
+        });
+        if (res.status === 404) return 'done';
+        if (res.status === 409) {
+          const data = await res.json();
+          const local = notesRef.current.find(n => n.id === mutation.noteId);
+          conflictedNotesRef.current.add(mutation.noteId);
+          setNoteConflict({
+            noteId: mutation.noteId,
+            mine: { title: local?.title ?? mutation.title, content: local?.content ?? mutation.content },
+            theirs: data.note
+          });
+          setSaveStatus(prev => ({ ...prev, [mutation.noteId]: 'conflict' }));
+          return 'done';
+        }
+        if (!res.ok) return 'retry';
+        const saved: Note = await res.json();
+        serverVersionsRef.current.set(saved.id, saved.version ?? 1);
+        setNotes(prev => prev.map(n => n.id === saved.id ? { ...n, version: saved.version, updated_at: saved.updated_at } : n));
+        setSaveStatus(prev => prev[saved.id] === 'queued' ? { ...prev, [saved.id]: 'saved' } : prev);
+        return 'done';
+      }
+
+      const res = await fetch(`${API_URL}/notes/${mutation.noteId}`, { method: 'DELETE', headers });
+      return res.ok || res.status === 404 ? 'done' : 'retry';
+    } catch (err) {
+      if (isNetworkError(err)) return 'offline';
+      console.error(err);
+      return 'retry';
+    }
+  };
+
+  // Replays queued offline changes in order, stopping at the first one the
+  // server cannot take yet
+  const syncPendingChanges = async () => {
+    if (syncingRef.current) return;
+    syncingRef.current = true;
+    setSyncError(null);
+    try {
+      for (;;) {
+        const [next] = await queuedMutations();
+        if (!next) break;
+        setIsSyncing(true);
+        const outcome = await replayMutation(next);
+        if (outcome === 'offline') {
+          setIsOnline(false);
+          break;
+        }
+        if (outcome === 'retry') break;
+        setIsOnline(true);
+        await dequeueMutation(next.seq);
+      }
+    } catch (err) {
+      console.error('Sync failed', err);
+    } finally {
+      syncingRef.current = false;
+      setIsSyncing(false);
+      setPendingChanges(await countQueued().catch(() => 0));
+    }
+  };
+
+  // A note created offline now exists on the server: swap in its real id
+  const adoptServerNote = (localId: string, created: Note) => {
+    serverVersionsRef.current.set(created.id, created.version ?? 1);
+    setNotes(prev => prev.map(n => n.id === localId ? { ...n, id: created.id, folder_id: created.folder_id, version: created.version, updated_at: created.updated_at } : n));
+    setActiveNoteId(prev => prev === localId ? created.id : prev);
+    setSaveStatus(prev => {
+      const { [localId]: status, ...rest } = prev;
+      return status ? { ...rest, [created.id]: status === 'queued' ? 'saved' : status } : rest;
+    });
+
+    // Edits typed while the note was being created are saved under the new id
+    const local = notesRef.current.find(n => n.id === localId);
+    const pendingTimer = saveTimersRef.current.get(localId);
+    clearTimeout(pendingTimer);
+    saveTimersRef.current.delete(localId);
+    if (pendingTimer || (local && (local.title !== created.title || local.content !== created.content))) {
+      saveTimersRef.current.set(created.id, setTimeout(() => flushNoteSave(created.id), SAVE_DELAY_MS));
+    }
+  };
+
+  const queueOfflineChange = async (mutation: Parameters<typeof queueMutation>[0]) => {
+    await queueMutation(mutation);
+    setPendingChanges(await countQueued());
   };
 
+  // Poll index status while any note in the open subject or topic is still being indexed
+  useEffect(() => {
+    if (!activeFolderId) return;
+    const scope = subtreeIds(folders, activeFolderId);
+    const hasStale = notes.some(n => scope.has(n.folder_id) && n.index_status === 'stale');
+    if (!hasStale) return;
+
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch(`${API_URL}/notes/index-status?folderId=${activeFolderId}`, {
+          headers: { 'Authorization': `Bearer ${token}` }
+        });
+        if (!res.ok) return;
+        const statuses: { id: string, index_status: Note['index_status'], index_error: string | null }[] = await res.json();
+        const byId = new Map(statuses.map(st => [st.id, st]));
+        setNotes(prev => prev.map(n => {
+          const st = byId.get(n.id);
+          return st && st.index_status !== n.index_status ? { ...n, index_status: st.index_status, index_error: st.index_error } : n;
+        }));
+      } catch (err) { console.error(err); }
+    }, 3000);
+    return () => clearTimeout(timer);
+  }, [notes, folders, activeFolderId, token]);
+
+  // Ranked search on the server, scoped by the filters. Each result set is
+  // keyed by the search it answers, so a slow response never shows for a
+  // newer query.
+  const searchTerm = searchQuery.trim();
+  const searchFolderId = searchFilters.scope === 'folder' ? activeFolderId : searchFilters.scope === 'all' ? null : searchFilters.scope;
+  const searchKey = JSON.stringify([searchTerm, searchFolderId, searchFilters.type, searchFilters.from, searchFilters.to]);
+  useEffect(() => {
+    if (!searchTerm || !isOnline) return;
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      const params = new URLSearchParams({ q: searchTerm });
+      if (searchFolderId) params.set('folderId', searchFolderId);
+      if (searchFilters.type) params.set('type', searchFilters.type);
+      if (searchFilters.from) params.set('from', searchFilters.from);
+      if (searchFilters.to) params.set('to', searchFilters.to);
+      try {
+        const res = await fetch(`${API_URL}/search?${params}`, {
+          headers: { 'Authorization': `Bearer ${token}` },
+          signal: controller.signal
+        });
+        setSearchResults({ key: searchKey, hits: res.ok ? await res.json() : null });
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        console.error(err);
+        setSearchResults({ key: searchKey, hits: null });
+      }
+    }, SEARCH_DELAY_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [searchKey, searchTerm, searchFolderId, searchFilters, isOnline, token]);
+
   useEffect(() => {
     const handleResize = () => {
       if (window.innerWidth <= 900) {
@@ -262,26 +2058,39 @@ function MainApp({ token, username, onLogout }: { token: string, username: strin
   }, [activeNoteId]);
 
   // Folder Actions
-  const handleCreateFolder = async (e: React.FormEvent) => {
+  const openFolderDialog = (parentId: string | null, folder?: FolderType) => {
+    setNewFolderName(folder ? folder.name : '');
+    setFolderDialog({ parentId, folder });
+  };
+
+  const handleSaveFolder = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (folders.length >= MAX_FOLDERS) {
-      alert(`You can only create up to ${MAX_FOLDERS} folders.`);
-      return;
-    }
-    if (!newFolderName.trim()) return;
+    if (!folderDialog || !newFolderName.trim()) return;
+    const { parentId, folder } = folderDialog;
 
     try {
-      const res = await fetch(`${API_URL}/folders`, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify({ name: newFolderName.trim() })
-      });
+      const res = folder
+        ? await fetch(`${API_URL}/folders/${folder.id}`, {
+          method: 'PUT',
+          headers,
+          body: JSON.stringify({ name: newFolderName.trim() })
+        })
+        : await fetch(`${API_URL}/folders`, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({ name: newFolderName.trim(), parent_id: parentId })
+        });
       if (res.ok) {
-        const newFolder = await res.json();
-        setFolders([...folders, newFolder]);
-        setActiveFolderId(newFolder.id);
+        const saved: FolderType = await res.json();
         setNewFolderName('');
-        setIsFolderModalOpen(false);
+        setFolderDialog(null);
+        if (folder) {
+          setFolders(prev => prev.map(f => f.id === saved.id ? saved : f));
+          return;
+        }
+        setFolders(prev => [...prev, saved]);
+        if (parentId) setCollapsedFolders(prev => { const next = new Set(prev); next.delete(parentId); return next; });
+        setActiveFolderId(saved.id);
         setActiveNoteId(null);
       } else {
         const err = await res.json();
@@ -290,142 +2099,695 @@ function MainApp({ token, username, onLogout }: { token: string, username: strin
     } catch (err) { console.error(err); }
   };
 
+  // Folders go to the trash with their topics and notes; the toast offers an undo
   const deleteFolder = async (id: string, e: React.MouseEvent) => {
     e.stopPropagation();
-    if (window.confirm('Are you sure you want to delete this folder and all its notes?')) {
-      try {
-        const res = await fetch(`${API_URL}/folders/${id}`, { method: 'DELETE', headers });
-        if (res.ok) {
-          const newFolders = folders.filter(f => f.id !== id);
-          setFolders(newFolders);
-          setNotes(notes.filter(n => n.folder_id !== id));
-          if (activeFolderId === id) {
-            setActiveFolderId(newFolders.length > 0 ? newFolders[0].id : null);
-            setActiveNoteId(null);
-          }
+    try {
+      const res = await fetch(`${API_URL}/folders/${id}`, { method: 'DELETE', headers });
+      if (res.ok) {
+        const folder = folders.find(f => f.id === id);
+        showUndoToast(`"${folder?.name}" and its notes moved to trash`, [{ kind: 'folders', id }]);
+        const removed = subtreeIds(folders, id);
+        const newFolders = folders.filter(f => !removed.has(f.id));
+        setFolders(newFolders);
+        setNotes(notes.filter(n => !removed.has(n.folder_id)));
+        if (activeFolderId && removed.has(activeFolderId)) {
+          setActiveFolderId(folder?.parent_id || (newFolders.find(f => !f.parent_id) || newFolders[0])?.id || null);
+          setActiveNoteId(null);
         }
-      } catch (err) { console.error(err); }
+      }
+    } catch (err) { console.error(err); }
+  };
+
+  const toggleFolderCollapsed = (id: string) => {
+    setCollapsedFolders(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  // Drag-and-drop reordering: the top and bottom quarters of a row drop the
+  // folder before or after it, the middle drops it inside as a topic.
+  const handleFolderDragOver = (e: React.DragEvent, target: FolderType) => {
+    if (!draggedFolderId || subtreeIds(folders, draggedFolderId).has(target.id)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    const rect = e.currentTarget.getBoundingClientRect();
+    const ratio = (e.clientY - rect.top) / rect.height;
+    const place = ratio < 0.25 ? 'before' : ratio > 0.75 ? 'after' : 'inside';
+    if (folderDrop?.folderId !== target.id || folderDrop.place !== place) setFolderDrop({ folderId: target.id, place });
+  };
+
+  const handleFolderDrop = async (e: React.DragEvent, target: FolderType) => {
+    e.preventDefault();
+    const folderId = draggedFolderId;
+    const place = folderDrop?.folderId === target.id ? folderDrop.place : 'inside';
+    setDraggedFolderId(null);
+    setFolderDrop(null);
+    if (!folderId || subtreeIds(folders, folderId).has(target.id)) return;
+
+    const parentId = place === 'inside' ? target.id : target.parent_id || null;
+    const siblings = siblingsOf(folders, parentId).filter(f => f.id !== folderId);
+    const position = place === 'inside'
+      ? siblings.length
+      : siblings.findIndex(f => f.id === target.id) + (place === 'after' ? 1 : 0);
+
+    try {
+      const res = await fetch(`${API_URL}/folders/${folderId}/move`, {
+        method: 'PUT',
+        headers,
+        body: JSON.stringify({ parent_id: parentId, position })
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(data.error || 'Could not move the folder.');
+        return;
+      }
+      setFolders(data);
+      if (place === 'inside') setCollapsedFolders(prev => { const next = new Set(prev); next.delete(target.id); return next; });
+    } catch (err) {
+      console.error(err);
+      alert('Could not move the folder. Check your connection and try again.');
     }
   };
 
   // Note Actions
   const createNote = async () => {
     if (!activeFolderId) return;
+    const openNewNote = (newNote: Note) => {
+      setNotes(prev => [newNote, ...prev]);
+      setActiveNoteId(newNote.id);
+      if (window.innerWidth <= 900) setIsSidebarOpen(false);
+    };
+    // Offline, the note gets a local id and is created on the server later
+    const createOffline = async () => {
+      const newNote: Note = { id: newLocalId(), folder_id: activeFolderId, title: '', content: '', updated_at: new Date().toISOString() };
+      setIsOnline(false);
+      await queueOfflineChange({ type: 'createNote', noteId: newNote.id, folderId: activeFolderId, title: '', content: '' });
+      openNewNote(newNote);
+    };
 
+    if (!navigator.onLine) return createOffline();
     try {
       const res = await fetch(`${API_URL}/notes`, {
         method: 'POST',
         headers,
         body: JSON.stringify({ folder_id: activeFolderId, title: '', content: '' })
       });
+      if (res.ok) openNewNote(await res.json());
+    } catch (err) {
+      if (isNetworkError(err)) await createOffline();
+      else console.error(err);
+    }
+  };
+
+  // Imports files one after another into the open subject, opening the last
+  // one imported and listing any that failed
+  const uploadFiles = async (files: File[]) => {
+    if (!activeFolderId || files.length === 0 || isUploading) return;
+    const folderId = activeFolderId;
+    const failures: string[] = [];
+    let imported: Note | null = null;
+
+    for (let i = 0; i < files.length; i++) {
+      const file = files[i];
+      if (!isSupportedUpload(file.name)) {
+        failures.push(`${file.name}: unsupported file type`);
+        continue;
+      }
+      setUploadProgress({ fileName: file.name, index: i + 1, total: files.length, percent: 0 });
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('folder_id', folderId);
+
+      try {
+        const { ok, data } = await uploadWithProgress(`${API_URL}/notes/upload`, {
+          token,
+          body: formData,
+          onProgress: percent => setUploadProgress(prev => prev && { ...prev, percent })
+        });
+        if (ok) {
+          const newNote = data as unknown as Note;
+          imported = newNote;
+          setNotes(prev => [newNote, ...prev]);
+        } else {
+          failures.push(`${file.name}: ${data.error || 'failed to import'}`);
+        }
+      } catch (err) {
+        console.error(err);
+        failures.push(`${file.name}: could not reach the server`);
+      }
+    }
+
+    setUploadProgress(null);
+    if (imported) {
+      setActiveNoteId(imported.id);
+      if (window.innerWidth <= 900) setIsSidebarOpen(false);
+    }
+    if (failures.length > 0) alert(`Some files could not be imported:\n\n${failures.join('\n')}`);
+  };
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = ''; // Reset input
+    await uploadFiles(files);
+  };
+
+  const handleFileDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDraggingFiles(false);
+    uploadFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const deleteNote = async (id: string) => {
+    clearTimeout(saveTimersRef.current.get(id));
+    saveTimersRef.current.delete(id);
+    const removeLocally = () => {
+      setNotes(prev => prev.filter(n => n.id !== id));
+      if (activeNoteId === id) {
+        setActiveNoteId(null);
+        if (window.innerWidth <= 900) setIsSidebarOpen(true);
+      }
+    };
+    const deleteOffline = async () => {
+      await queueOfflineChange({ type: 'deleteNote', noteId: id });
+      removeLocally();
+    };
+
+    if (isLocalId(id) || !navigator.onLine) return deleteOffline();
+    try {
+      const res = await fetch(`${API_URL}/notes/${id}`, { method: 'DELETE', headers });
       if (res.ok) {
-        const newNote = await res.json();
-        setNotes([newNote, ...notes]);
-        setActiveNoteId(newNote.id);
-        if (window.innerWidth <= 900) setIsSidebarOpen(false);
+        const title = notesRef.current.find(n => n.id === id)?.title || 'Untitled Note';
+        removeLocally();
+        showUndoToast(`"${title}" moved to trash`, [{ kind: 'notes', id }]);
+      }
+    } catch (err) {
+      if (isNetworkError(err)) {
+        setIsOnline(false);
+        await deleteOffline();
+      } else {
+        console.error(err);
+      }
+    }
+  };
+
+  // Trash
+  const showUndoToast = (message: string, entries: TrashEntry[]) => {
+    clearTimeout(undoTimerRef.current);
+    setUndoToast({ message, entries });
+    undoTimerRef.current = setTimeout(() => setUndoToast(null), UNDO_TOAST_MS);
+  };
+
+  useEffect(() => () => clearTimeout(undoTimerRef.current), []);
+
+  // Restores trash entries, then reloads subjects and notes since a restored
+  // folder brings back its topics and notes too
+  const restoreFromTrash = async (entries: TrashEntry[]) => {
+    let error = '';
+    try {
+      for (const entry of entries) {
+        const res = await fetch(`${API_URL}/trash/${entry.kind}/${entry.id}/restore`, { method: 'POST', headers });
+        if (!res.ok) error = (await res.json().catch(() => ({}))).error || 'Could not restore from the trash.';
       }
+    } catch (err) {
+      console.error(err);
+      error = 'Could not restore from the trash. Check your connection and try again.';
+    }
+    await Promise.all([fetchFolders(), fetchNotes()]);
+    if (error) alert(error);
+  };
+
+  const undoDeletion = async () => {
+    if (!undoToast) return;
+    clearTimeout(undoTimerRef.current);
+    setUndoToast(null);
+    await restoreFromTrash(undoToast.entries);
+  };
+
+  const openTrash = async () => {
+    setTrash(prev => prev && prev !== 'loading' ? prev : 'loading');
+    try {
+      const res = await fetch(`${API_URL}/trash`, { headers });
+      if (!res.ok) throw new Error('Could not load the trash.');
+      setTrash(await res.json());
+    } catch (err) {
+      console.error(err);
+      alert('Could not load the trash.');
+      setTrash(null);
+    }
+  };
+
+  const restoreTrashEntry = async (entry: TrashEntry) => {
+    await restoreFromTrash([entry]);
+    await openTrash();
+  };
+
+  const deleteForever = async (entry: TrashEntry | null) => {
+    const message = entry ? 'Delete this permanently? It cannot be restored.' : 'Empty the trash? Everything in it is deleted permanently.';
+    if (!window.confirm(message)) return;
+    try {
+      const res = await fetch(entry ? `${API_URL}/trash/${entry.kind}/${entry.id}` : `${API_URL}/trash`, { method: 'DELETE', headers });
+      if (!res.ok) alert((await res.json().catch(() => ({}))).error || 'Could not delete from the trash.');
     } catch (err) { console.error(err); }
+    await openTrash();
   };
 
-  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (!activeFolderId || !e.target.files || e.target.files.length === 0) return;
+  const toggleNoteSelection = (id: string) => {
+    setSelectedNoteIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const exitNoteSelection = () => {
+    setIsSelectingNotes(false);
+    setSelectedNoteIds(new Set());
+    setBatchDialog(null);
+  };
+
+  // Bulk actions run on the server, so they need a connection and every
+  // selected note saved there first.
+  const prepareBatch = async () => {
+    const ids = [...selectedNoteIds];
+    if (!navigator.onLine || ids.some(isLocalId)) {
+      alert('Bulk actions need a connection. Sync your offline changes and try again.');
+      return null;
+    }
+    await Promise.all(ids.map(id => saveTimersRef.current.has(id) ? flushNoteSave(id) : saveChainRef.current.get(id)));
+    return ids;
+  };
 
-    setIsUploading(true);
-    const file = e.target.files[0];
-    const formData = new FormData();
-    formData.append('file', file);
-    formData.append('folder_id', activeFolderId);
+  const postBatch = async (action: 'move' | 'copy' | 'delete' | 'export', body: Record<string, unknown>) => {
+    const res = await fetch(`${API_URL}/notes/batch/${action}`, { method: 'POST', headers, body: JSON.stringify(body) });
+    if (!res.ok) throw new Error((await res.json().catch(() => ({}))).error || `Could not ${action} the notes.`);
+    return res;
+  };
 
+  const batchMoveOrCopy = async (mode: 'move' | 'copy', folderId: string) => {
+    const noteIds = await prepareBatch();
+    if (!noteIds) return;
     try {
-      const res = await fetch(`${API_URL}/notes/upload`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`
-        },
-        body: formData
+      const changed: Note[] = await (await postBatch(mode, { noteIds, folderId })).json();
+      if (mode === 'move') {
+        // Only the folder and index state change; keep any edits made since
+        const byId = new Map(changed.map(n => [n.id, n]));
+        setNotes(prev => prev.map(n => {
+          const moved = byId.get(n.id);
+          return moved ? { ...n, folder_id: moved.folder_id, index_status: moved.index_status } : n;
+        }));
+      } else {
+        setNotes(prev => [...changed, ...prev]);
+      }
+      exitNoteSelection();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : `Could not ${mode} the notes.`);
+    }
+  };
+
+  const batchDelete = async () => {
+    const noteIds = await prepareBatch();
+    if (!noteIds) return;
+    try {
+      const { deleted }: { deleted: string[] } = await (await postBatch('delete', { noteIds })).json();
+      const removed = new Set(deleted);
+      setNotes(prev => prev.filter(n => !removed.has(n.id)));
+      if (activeNoteId && removed.has(activeNoteId)) setActiveNoteId(null);
+      exitNoteSelection();
+      showUndoToast(
+        `${deleted.length} ${deleted.length === 1 ? 'note' : 'notes'} moved to trash`,
+        deleted.map(id => ({ kind: 'notes', id }))
+      );
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Could not delete the notes.');
+    }
+  };
+
+  const batchExport = async () => {
+    const noteIds = await prepareBatch();
+    if (!noteIds) return;
+    try {
+      const url = URL.createObjectURL(await (await postBatch('export', { noteIds })).blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = 'notes.zip';
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Could not export the notes.');
+    }
+  };
+
+  const updateNoteLocally = (id: string, updates: Partial<Note>) => {
+    setNotes(notes.map(n => n.id === id ? { ...n, ...updates } : n));
+  };
+
+  const retryIndexing = async (id: string, e: React.MouseEvent) => {
+    e.stopPropagation();
+    try {
+      const res = await fetch(`${API_URL}/notes/${id}/reindex`, { method: 'POST', headers });
+      if (res.ok) updateNoteLocally(id, { index_status: 'stale', index_error: null });
+    } catch (err) { console.error(err); }
+  };
+
+  // Debounced auto-save: edits apply locally at once and reach the server
+  // SAVE_DELAY_MS after the last keystroke
+  const editNote = (id: string, updates: Partial<Pick<Note, 'title' | 'content'>>) => {
+    updateNoteLocally(id, updates.content !== undefined ? { ...updates, index_status: 'stale' } : updates);
+    setSaveStatus(prev => ({ ...prev, [id]: 'unsaved' }));
+    clearTimeout(saveTimersRef.current.get(id));
+    saveTimersRef.current.set(id, setTimeout(() => flushNoteSave(id), SAVE_DELAY_MS));
+  };
+
+  // Saves of one note run one after another, each sending the latest local text
+  const flushNoteSave = (id: string) => {
+    clearTimeout(saveTimersRef.current.get(id));
+    saveTimersRef.current.delete(id);
+    const run = (saveChainRef.current.get(id) || Promise.resolve()).then(() => saveNoteToServer(id));
+    saveChainRef.current.set(id, run);
+    return run;
+  };
+
+  const saveNoteToServer = async (id: string) => {
+    const note = notesRef.current.find(n => n.id === id);
+    if (!note || conflictedNotesRef.current.has(id)) return;
+
+    // Kept in the offline queue, based on the last version seen from the server
+    const saveOffline = async () => {
+      await queueOfflineChange({
+        type: 'saveNote',
+        noteId: id,
+        title: note.title,
+        content: note.content,
+        version: serverVersionsRef.current.get(id) ?? note.version
       });
+      setSaveStatus(prev => ({ ...prev, [id]: saveTimersRef.current.has(id) ? 'unsaved' : 'queued' }));
+    };
+    if (isLocalId(id) || !navigator.onLine) return saveOffline();
 
-      if (res.ok) {
-        const newNote = await res.json();
-        setNotes([newNote, ...notes]);
-        setActiveNoteId(newNote.id);
-        if (window.innerWidth <= 900) setIsSidebarOpen(false);
-      } else {
-        const err = await res.json();
-        alert(err.error || 'Failed to upload note');
+    setSaveStatus(prev => ({ ...prev, [id]: 'saving' }));
+    try {
+      const res = await fetch(`${API_URL}/notes/${id}`, {
+        method: 'PUT',
+        headers,
+        body: JSON.stringify({
+          title: note.title,
+          content: note.content,
+          version: serverVersionsRef.current.get(id) ?? note.version
+        })
+      });
+      const data = await res.json();
+      if (res.status === 409) {
+        conflictedNotesRef.current.add(id);
+        setNoteConflict({ noteId: id, mine: { title: note.title, content: note.content }, theirs: data.note });
+        setSaveStatus(prev => ({ ...prev, [id]: 'conflict' }));
+        return;
       }
+      if (!res.ok) throw new Error(data.error || 'Failed to save note');
+
+      serverVersionsRef.current.set(id, data.version);
+      setIsOnline(true);
+      // A rename rewrote [[links]] in these notes; copies with unsaved edits
+      // keep them and meet the server's text as a conflict on their next save
+      const relinked: Pick<Note, 'id' | 'content' | 'version' | 'updated_at' | 'index_status'>[] = (data.relinked || [])
+        .filter((r: Note) => !saveTimersRef.current.has(r.id) && !conflictedNotesRef.current.has(r.id));
+      relinked.forEach(r => serverVersionsRef.current.set(r.id, r.version ?? 1));
+      setNotes(prev => prev.map(n => {
+        if (n.id === id) return { ...n, version: data.version, updated_at: data.updated_at };
+        const r = relinked.find(linked => linked.id === n.id);
+        return r ? { ...n, ...r } : n;
+      }));
+      setSaveStatus(prev => ({ ...prev, [id]: saveTimersRef.current.has(id) ? 'unsaved' : 'saved' }));
     } catch (err) {
+      if (isNetworkError(err)) {
+        setIsOnline(false);
+        await saveOffline();
+        return;
+      }
       console.error(err);
-      alert('Error uploading file');
-    } finally {
-      setIsUploading(false);
-      e.target.value = ''; // Reset input
+      setSaveStatus(prev => ({ ...prev, [id]: 'error' }));
     }
   };
 
-  const deleteNote = async (id: string) => {
+  const resolveNoteConflict = (choice: 'mine' | 'theirs') => {
+    if (!noteConflict) return;
+    const { noteId, theirs } = noteConflict;
+    serverVersionsRef.current.set(noteId, theirs.version ?? 1);
+    conflictedNotesRef.current.delete(noteId);
+    setNoteConflict(null);
+
+    if (choice === 'mine') {
+      flushNoteSave(noteId);
+      return;
+    }
+    clearTimeout(saveTimersRef.current.get(noteId));
+    saveTimersRef.current.delete(noteId);
+    setHighlight(null);
+    setNotes(prev => prev.map(n => n.id === noteId ? { ...n, ...theirs } : n));
+    setSaveStatus(prev => ({ ...prev, [noteId]: 'saved' }));
+  };
+
+  const downloadSource = async (note: Note) => {
     try {
-      const res = await fetch(`${API_URL}/notes/${id}`, { method: 'DELETE', headers });
-      if (res.ok) {
-        setNotes(notes.filter(n => n.id !== id));
-        if (activeNoteId === id) {
-          setActiveNoteId(null);
-          if (window.innerWidth <= 900) setIsSidebarOpen(true);
-        }
+      const res = await fetch(`${API_URL}/notes/${note.id}/source?download=1`, { headers });
+      if (!res.ok) {
+        alert((await res.json().catch(() => ({}))).error || 'Could not download the original file.');
+        return;
       }
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = note.source_name || note.title || 'source';
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error(err);
+      alert('Could not download the original file.');
+    }
+  };
+
+  // Shows a page of the original and puts the cursor at that page's text
+  const showSourcePage = (note: Note, page: number) => {
+    setSourcePage({ noteId: note.id, page });
+    const text = splitPages(note.content || '').find(p => p.page === page);
+    if (text) setHighlight({ noteId: note.id, start: text.start, end: text.start });
+  };
+
+  const openNoteHistory = async (noteId: string) => {
+    setNoteHistory({ noteId, revisions: [], selected: null, loading: true });
+    try {
+      const res = await fetch(`${API_URL}/notes/${noteId}/revisions`, { headers });
+      const revisions = res.ok ? await res.json() : [];
+      setNoteHistory(prev => prev && prev.noteId === noteId ? { ...prev, revisions, loading: false } : prev);
+    } catch (err) {
+      console.error(err);
+      setNoteHistory(prev => prev && { ...prev, loading: false });
+    }
+  };
+
+  const selectNoteRevision = async (revision: NoteRevision) => {
+    if (!noteHistory) return;
+    setNoteHistory(prev => prev && { ...prev, selected: revision });
+    try {
+      const res = await fetch(`${API_URL}/notes/${noteHistory.noteId}/revisions/${revision.id}`, { headers });
+      if (!res.ok) return;
+      const full: NoteRevision = await res.json();
+      setNoteHistory(prev => prev && prev.selected?.id === revision.id ? { ...prev, selected: { ...revision, content: full.content } } : prev);
     } catch (err) { console.error(err); }
   };
 
-  // Debounced Auto-save for Note Updates
-  const updateNoteLocally = (id: string, updates: Partial<Note>) => {
-    setNotes(notes.map(n => n.id === id ? { ...n, ...updates } : n));
+  const restoreNoteRevision = async (revision: NoteRevision) => {
+    if (!noteHistory) return;
+    const { noteId } = noteHistory;
+    // Pending edits are saved first so the restore keeps them in history
+    if (saveTimersRef.current.has(noteId)) await flushNoteSave(noteId);
+    else await saveChainRef.current.get(noteId);
+    if (conflictedNotesRef.current.has(noteId)) return;
+
+    try {
+      const note = notesRef.current.find(n => n.id === noteId);
+      const res = await fetch(`${API_URL}/notes/${noteId}/revisions/${revision.id}/restore`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ version: serverVersionsRef.current.get(noteId) ?? note?.version })
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(data.error || 'Failed to restore this version');
+        return;
+      }
+      serverVersionsRef.current.set(noteId, data.version);
+      setHighlight(null);
+      setNotes(prev => prev.map(n => n.id === noteId ? { ...n, ...data } : n));
+      setSaveStatus(prev => ({ ...prev, [noteId]: 'saved' }));
+      setNoteHistory(null);
+    } catch (err) {
+      console.error(err);
+      alert('Failed to restore this version');
+    }
+  };
+
+  const openCitation = (citation: Pick<Citation, 'noteId' | 'start' | 'end'>) => {
+    const note = notes.find(n => n.id === citation.noteId);
+    if (!note) {
+      alert('The cited note no longer exists.');
+      return;
+    }
+    setIsStudyMode(false);
+    // Stay in the subject or topic being studied when the note sits inside it
+    if (!activeFolderId || !subtreeIds(folders, activeFolderId).has(note.folder_id)) setActiveFolderId(note.folder_id);
+    setActiveNoteId(note.id);
+    setEditorView(view => view === 'preview' ? 'split' : view);
+    setHighlight({ noteId: note.id, start: citation.start, end: citation.end });
+    // With the source viewer open, the original turns to the cited page
+    const page = pageAtOffset(splitPages(note.content || ''), citation.start);
+    if (page) setSourcePage({ noteId: note.id, page });
+    if (window.innerWidth <= 900) setIsSidebarOpen(false);
+  };
+
+  // Follows a [[link]], staying in the open subject when the note is inside it
+  const openLinkedNote = (note: Note) => {
+    if (!activeFolderId || !subtreeIds(folders, activeFolderId).has(note.folder_id)) setActiveFolderId(note.folder_id);
+    setActiveNoteId(note.id);
+    setHighlight(null);
+    if (window.innerWidth <= 900) setIsSidebarOpen(false);
+  };
+
+  const updateLinkSuggest = (noteId: string, textarea: HTMLTextAreaElement) => {
+    const { selectionStart, selectionEnd, value } = textarea;
+    const found = selectionStart === selectionEnd ? linkQueryAt(value, selectionStart) : null;
+    setLinkSuggest(prev => found ? { noteId, ...found, index: prev?.start === found.start ? prev.index : 0 } : null);
+  };
+
+  // Completes the link being typed, replacing the rest of it when the caret
+  // is inside an existing one
+  const acceptLinkSuggestion = (title: string) => {
+    const textarea = bodyInputRef.current;
+    if (!activeNote || !linkSuggest || !textarea) return;
+    const content = activeNote.content || '';
+    const caret = textarea.selectionStart;
+    const rest = /^[^[\]\n]*\]\]/.exec(content.slice(caret));
+    const link = `[[${title}]]`;
+    setHighlight(null);
+    editNote(activeNote.id, { content: content.slice(0, linkSuggest.start) + link + content.slice(caret + (rest ? rest[0].length : 0)) });
+    setLinkSuggest(null);
+    const position = linkSuggest.start + link.length;
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(position, position);
+    });
   };
 
-  const saveNoteToServer = async (id: string, title: string, content: string) => {
-    try {
-      await fetch(`${API_URL}/notes/${id}`, {
-        method: 'PUT',
-        headers,
-        body: JSON.stringify({ title, content })
-      });
-    } catch (err) { console.error(err); }
+  // Opens a search result with its first match selected
+  const openSearchHit = (hit: SearchHit) => {
+    const note = notes.find(n => n.id === hit.id);
+    const match = note ? locateMatch(note.content || '', hit.snippet) : null;
+    openCitation({ noteId: hit.id, start: match?.start ?? 0, end: match?.end ?? 0 });
   };
 
   // Chat Actions
-  const handleSendChatMessage = async (overrideMessage?: string) => {
-    const textToSend = overrideMessage !== undefined ? overrideMessage : chatInput.trim();
-    if (!textToSend || isChatLoading) return;
-
-    const userMsg: ChatMessage = { role: 'user', content: textToSend };
-    setChatMessages(prev => [...prev, userMsg]);
-    setChatInput('');
-    setIsChatLoading(true);
+  // Streams a grounded answer into the last message of a chat panel. Tokens are
+  // appended as they arrive; complete sentences are handed to onSentence.
+  const streamReply = async (
+    message: string,
+    threadId: string | null,
+    setMessages: Dispatch<SetStateAction<ChatMessage[]>>,
+    signal: AbortSignal,
+    onThread: (threadId: string) => void,
+    onSentence?: (sentence: string) => void
+  ) => {
+    const patchStreaming = (update: (msg: ChatMessage) => ChatMessage) =>
+      setMessages(prev => prev.map(m => m.streaming ? update(m) : m));
+
+    setMessages(prev => [...prev, { role: 'model', content: '', streaming: true }]);
+    let sentenceBuffer = '';
 
     try {
-      const res = await fetch(`${API_URL}/chat`, {
+      const res = await fetch(`${API_URL}/chat/stream`, {
         method: 'POST',
         headers,
+        signal,
         body: JSON.stringify({
-          message: userMsg.content,
+          message,
           currentNote: activeNote,
-          contextNotes: chatMessages,
+          threadId,
           folderId: activeFolderId,
-          folderName: activeFolder ? activeFolder.name : "Subject"
+          folderName: activeFolder ? folderPath(folders, activeFolder.id) : 'Subject'
         })
       });
-      const data = await res.json();
 
-      if (res.ok) {
-        setChatMessages(prev => [...prev, { role: 'model', content: data.reply }]);
-        handleTTS(data.reply, chatMessages.length + 1); // Automatically read aloud AI reply
-        fetchNotes(); // In case a note was created
+      await readEventStream(res, (event, data) => {
+        if (event === 'verification') {
+          const { status, reply } = data as { status: ChatMessage['verification'], reply?: string };
+          if (status === 'failed' && reply) {
+            // The streamed answer could not be backed by the notes; don't keep reading it out
+            if (onSentence) stopSpeaking();
+            patchStreaming(m => ({ ...m, content: reply, verification: status }));
+          } else {
+            patchStreaming(m => ({ ...m, verification: status }));
+          }
+        } else if (event === 'thread') {
+          const { threadId: newThreadId } = data as { threadId: string };
+          onThread(newThreadId);
+          if (newThreadId !== threadId) fetchThreads();
+        } else if (event === 'token') {
+          const { text } = data as { text: string };
+          patchStreaming(m => ({ ...m, content: m.content + text }));
+          if (onSentence) {
+            sentenceBuffer += text;
+            let match = sentenceBuffer.match(/^([\s\S]*?[.!?])\s+/);
+            while (match) {
+              onSentence(match[1]);
+              sentenceBuffer = sentenceBuffer.slice(match[0].length);
+              match = sentenceBuffer.match(/^([\s\S]*?[.!?])\s+/);
+            }
+          }
+        } else if (event === 'citations') {
+          const { citations } = data as { citations: Citation[] };
+          patchStreaming(m => ({ ...m, citations }));
+        } else if (event === 'confidence') {
+          const { confidence, confidenceScore, passages } = data as Pick<ChatMessage, 'confidence' | 'confidenceScore' | 'passages'>;
+          patchStreaming(m => ({ ...m, confidence, confidenceScore, passages }));
+        }
+      });
+      if (onSentence && sentenceBuffer.trim()) onSentence(sentenceBuffer);
+    } catch (err) {
+      if (signal.aborted) {
+        patchStreaming(m => ({ ...m, content: m.content ? `${m.content.trim()} …` : 'Stopped.' }));
       } else {
-        setChatMessages(prev => [...prev, { role: 'model', content: `Error: ${data.error}` }]);
+        console.error(err);
+        const errorText = err instanceof TypeError ? 'Network or server error.' : `Error: ${(err as Error).message}`;
+        patchStreaming(m => ({ ...m, content: m.content || errorText }));
       }
-    } catch (err) {
-      console.error(err);
-      setChatMessages(prev => [...prev, { role: 'model', content: 'Network or server error.' }]);
     } finally {
+      patchStreaming(m => ({ ...m, content: m.content.trim(), streaming: false }));
+    }
+  };
+
+  const handleSendChatMessage = async (overrideMessage?: string) => {
+    const textToSend = overrideMessage !== undefined ? overrideMessage : chatInput.trim();
+    if (!textToSend || isChatLoading) return;
+
+    const userMsg: ChatMessage = { role: 'user', content: textToSend };
+    const replyIdx = chatMessages.length + 1;
+    setChatMessages(prev => [...prev, userMsg]);
+    setChatInput('');
+    setIsChatLoading(true);
+    stopSpeaking();
+
+    const controller = new AbortController();
+    chatAbortRef.current = controller;
+    try {
+      // Automatically read aloud the AI reply, sentence by sentence
+      await streamReply(userMsg.content, chatThreadId, setChatMessages, controller.signal, setChatThreadId, sentence => queueTTS(sentence, replyIdx));
+      fetchNotes(); // In case a note was created
+      fetchThreads();
+    } finally {
+      chatAbortRef.current = null;
       setIsChatLoading(false);
     }
   };
@@ -440,32 +2802,85 @@ function MainApp({ token, username, onLogout }: { token: string, username: strin
     setAssistantInput('');
     setIsAssistantLoading(true);
 
+    const controller = new AbortController();
+    assistantAbortRef.current = controller;
     try {
-      const res = await fetch(`${API_URL}/chat`, {
-        method: 'POST',
+      await streamReply(userMsg.content, assistantThreadId, setAssistantMessages, controller.signal, setAssistantThreadId);
+      fetchNotes(); // In case a note was created
+      fetchThreads();
+    } finally {
+      assistantAbortRef.current = null;
+      setIsAssistantLoading(false);
+    }
+  };
+
+  // Conversation Threads
+  const fetchThreads = async () => {
+    if (!activeFolderId) return;
+    try {
+      const res = await fetch(`${API_URL}/chat/threads?folderId=${activeFolderId}`, { headers });
+      if (res.ok) setChatThreads(await res.json());
+    } catch (err) { console.error(err); }
+  };
+
+  const selectThread = async (panel: 'chat' | 'assistant', thread: ChatThread) => {
+    setOpenThreadList(null);
+    try {
+      const res = await fetch(`${API_URL}/chat/threads/${thread.id}/messages`, { headers });
+      if (!res.ok) return;
+      const messages: ChatMessage[] = await res.json();
+      if (panel === 'chat') {
+        setChatThreadId(thread.id);
+        setChatMessages(messages);
+      } else {
+        setAssistantThreadId(thread.id);
+        setAssistantMessages(messages);
+      }
+    } catch (err) { console.error(err); }
+  };
+
+  const startNewThread = (panel: 'chat' | 'assistant') => {
+    setOpenThreadList(null);
+    if (panel === 'chat') {
+      setChatThreadId(null);
+      setChatMessages([]);
+    } else {
+      setAssistantThreadId(null);
+      setAssistantMessages([]);
+    }
+  };
+
+  const renameThread = async (thread: ChatThread) => {
+    const title = window.prompt('Rename conversation', thread.title);
+    if (!title || !title.trim() || title.trim() === thread.title) return;
+    try {
+      const res = await fetch(`${API_URL}/chat/threads/${thread.id}`, {
+        method: 'PATCH',
         headers,
-        body: JSON.stringify({
-          message: userMsg.content,
-          currentNote: activeNote,
-          contextNotes: assistantMessages,
-          folderId: activeFolderId,
-          folderName: activeFolder ? activeFolder.name : 'Subject'
-        })
+        body: JSON.stringify({ title: title.trim() })
       });
-      const data = await res.json();
+      if (res.ok) {
+        const updated = await res.json();
+        setChatThreads(prev => prev.map(t => t.id === updated.id ? updated : t));
+      }
+    } catch (err) { console.error(err); }
+  };
 
+  const deleteThread = async (thread: ChatThread) => {
+    if (!window.confirm(`Delete the conversation "${thread.title}"?`)) return;
+    try {
+      const res = await fetch(`${API_URL}/chat/threads/${thread.id}`, { method: 'DELETE', headers });
       if (res.ok) {
-        setAssistantMessages(prev => [...prev, { role: 'model', content: data.reply }]);
-        fetchNotes(); // In case a note was created
-      } else {
-        setAssistantMessages(prev => [...prev, { role: 'model', content: `Error: ${data.error}` }]);
+        setChatThreads(prev => prev.filter(t => t.id !== thread.id));
+        if (chatThreadId === thread.id) startNewThread('chat');
+        if (assistantThreadId === thread.id) startNewThread('assistant');
       }
-    } catch (err) {
-      console.error(err);
-      setAssistantMessages(prev => [...prev, { role: 'model', content: 'Network or server error.' }]);
-    } finally {
-      setIsAssistantLoading(false);
-    }
+    } catch (err) { console.error(err); }
+  };
+
+  const stopChatAnswer = () => {
+    chatAbortRef.current?.abort();
+    stopSpeaking();
   };
 
   // Auto-greeting when Teacher Mode opens
@@ -502,6 +2917,32 @@ function MainApp({ token, username, onLogout }: { token: string, username: strin
     setIsGapMapLoading(false);
   };
 
+  const explainConcept = async (concept: string) => {
+    if (!activeFolderId || !concept.trim()) return;
+    setExplainConceptName(concept.trim());
+    setExplanation(null);
+    setExplainError(null);
+    setIsExplaining(true);
+    try {
+      const res = await fetch(`${API_URL}/study/layered-explain`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          concept: concept.trim(),
+          folderId: activeFolderId,
+          folderName: activeFolder ? folderPath(folders, activeFolder.id) : "Subject"
+        })
+      });
+      const data = await res.json();
+      if (res.ok) setExplanation(data);
+      else setExplainError(data.error || 'Failed to generate explanation');
+    } catch (err) {
+      console.error(err);
+      setExplainError('Failed to generate explanation');
+    }
+    setIsExplaining(false);
+  };
+
   const recordPerformance = async (concept: string, isCorrect: boolean, score?: number) => {
     if (!activeFolderId || !concept) return;
     try {
@@ -516,43 +2957,151 @@ function MainApp({ token, username, onLogout }: { token: string, username: strin
 
 
 
-  const handleVivaInteraction = async (userAnswer?: string) => {
+  const fetchVivaHistory = async () => {
+    if (!activeFolderId) return;
+    try {
+      const res = await fetch(`${API_URL}/study/viva/sessions?folderId=${activeFolderId}`, { headers });
+      const data = await res.json();
+      setVivaHistory(Array.isArray(data) ? data : []);
+    } catch (err) { console.error(err); }
+  };
+
+  const openVivaSetup = () => {
+    setStudySubMode('viva');
+    setVivaSession(null);
+    setShowVivaTranscript(false);
+    fetchVivaHistory();
+  };
+
+  const startViva = async () => {
     if (!activeFolderId) return;
     setIsVivaLoading(true);
     try {
-      const res = await fetch(`${API_URL}/study/viva`, {
+      const res = await fetch(`${API_URL}/study/viva/sessions`, {
         method: 'POST',
         headers,
-        body: JSON.stringify({
-          folderId: activeFolderId,
-          history: vivaMessages,
-          userAnswer,
-          questionCount: vivaQuestionCount
-        })
+        body: JSON.stringify({ folderId: activeFolderId, ...vivaSetup })
       });
       const data = await res.json();
-      if (userAnswer) {
-        setVivaMessages(prev => [...prev, { role: 'user', content: userAnswer }]);
-        setVivaQuestionCount(prev => prev + 1);
+      if (!res.ok) alert(data.error || 'Failed to start viva');
+      else {
+        setVivaSession(data);
+        setShowVivaTranscript(false);
       }
-      setVivaMessages(prev => [...prev, { role: 'ai', content: data.examinerResponse, isFinal: data.isFinalResult }]);
-      if (data.performanceScore !== undefined) {
-        // Performance score received
+    } catch (err) {
+      console.error(err);
+    }
+    setIsVivaLoading(false);
+  };
+
+  const handleVivaInteraction = async (userAnswer: string) => {
+    if (!vivaSession || vivaSession.status !== 'active' || !userAnswer.trim()) return;
+    const previous = vivaSession;
+    setVivaSession({ ...previous, messages: [...(previous.messages || []), { role: 'user', content: userAnswer }] });
+    setIsVivaLoading(true);
+    try {
+      const res = await fetch(`${API_URL}/study/viva/sessions/${previous.id}/answer`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ answer: userAnswer })
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setVivaSession(previous);
+        alert(data.error || 'Viva simulator failed');
+      } else {
+        setVivaSession(data);
+        fetchGapMap();
+        if (data.status === 'completed') fetchVivaHistory();
       }
     } catch (err) {
       console.error(err);
+      setVivaSession(previous);
     }
     setIsVivaLoading(false);
   };
 
+  const openViva = async (id: string) => {
+    try {
+      const res = await fetch(`${API_URL}/study/viva/sessions/${id}`, { headers });
+      const data = await res.json();
+      if (!res.ok) return alert(data.error || 'Failed to load viva');
+      setVivaSession(data);
+      setShowVivaTranscript(false);
+    } catch (err) { console.error(err); }
+  };
+
+  const deleteViva = async (id: string) => {
+    if (!confirm('Delete this viva from your history?')) return;
+    try {
+      const res = await fetch(`${API_URL}/study/viva/sessions/${id}`, { method: 'DELETE', headers });
+      if (res.ok) setVivaHistory(prev => prev.filter(v => v.id !== id));
+    } catch (err) { console.error(err); }
+  };
+
+  const fetchDeckSummary = async () => {
+    if (!activeFolderId) return;
+    try {
+      const res = await fetch(`${API_URL}/flashcards/summary?folderId=${activeFolderId}`, { headers });
+      if (res.ok) setDeckSummary(await res.json());
+    } catch (err) { console.error(err); }
+  };
+
+  const startFlashcardReview = async () => {
+    if (!activeFolderId) return;
+    setStudySubMode('flashcards');
+    setIsReviewLoading(true);
+    setReviewQueue([]);
+    setReviewedCount(0);
+    setShowFlashcardAnswer(false);
+    try {
+      const res = await fetch(`${API_URL}/flashcards?folderId=${activeFolderId}&due=true`, { headers });
+      const data = await res.json();
+      setReviewQueue(Array.isArray(data) ? data : []);
+    } catch (err) {
+      console.error(err);
+    }
+    setIsReviewLoading(false);
+  };
+
+  const handleGradeFlashcard = async (grade: FlashcardGrade) => {
+    const [card, ...rest] = reviewQueue;
+    if (!card) return;
+    // Cards graded "Again" come back at the end of this session
+    setReviewQueue(grade === 'again' ? [...rest, card] : rest);
+    setShowFlashcardAnswer(false);
+    setReviewedCount(prev => prev + 1);
+    try {
+      const res = await fetch(`${API_URL}/flashcards/${card.id}/review`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ grade })
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        console.error(data.error || 'Failed to save review');
+      }
+      fetchDeckSummary();
+      if (card.concept) fetchGapMap();
+    } catch (err) { console.error(err); }
+  };
+
   useEffect(() => {
     if (isStudyMode && activeFolderId) {
       fetchGapMap();
+      fetchDeckSummary();
     }
   }, [isStudyMode, activeFolderId]);
 
   // Study Actions
-  const handleGenerateStudyMaterial = async (mode?: 'weakness', targetConcept?: string) => {
+  const answerObjective = (key: string, concept: string, answer: string, isCorrect: boolean) => {
+    const nextAnswers = { ...mcqAnswers, [key]: answer };
+    setMcqAnswers(nextAnswers);
+    saveQuizProgress({ mcqAnswers: nextAnswers });
+    recordPerformance(concept, isCorrect);
+  };
+
+  const handleGenerateStudyMaterial = async (mode?: 'weakness', targetConcept?: string, options?: QuizOptions) => {
     if (!activeFolderId) return;
     setIsStudyLoading(true);
     setStudyData(null);
@@ -566,13 +3115,21 @@ function MainApp({ token, username, onLogout }: { token: string, username: strin
         headers,
         body: JSON.stringify({
           folderId: activeFolderId,
-          folderName: activeFolder ? activeFolder.name : "Subject",
+          folderName: activeFolder ? folderPath(folders, activeFolder.id) : "Subject",
           mode,
-          targetConcept
+          targetConcept,
+          options
         })
       });
       const data = await res.json();
+      if (!res.ok) {
+        alert(data.error || 'Error generating study material.');
+        return;
+      }
       setStudyData(data);
+      setQuizSessionId(data.sessionId || null);
+      setShowMistakesOnly(false);
+      fetchDeckSummary();
     } catch (err) {
       console.error(err);
       alert('Error generating study material.');
@@ -581,6 +3138,74 @@ function MainApp({ token, username, onLogout }: { token: string, username: strin
     }
   };
 
+  const saveQuizProgress = async (patch: { mcqAnswers?: Record<string, string> }) => {
+    if (!quizSessionId) return;
+    try {
+      await fetch(`${API_URL}/quizzes/${quizSessionId}`, {
+        method: 'PATCH',
+        headers,
+        body: JSON.stringify({
+          mcqAnswers: patch.mcqAnswers ?? mcqAnswers,
+          saqAnswers
+        })
+      });
+    } catch (err) { console.error(err); }
+  };
+
+  const fetchQuizHistory = async () => {
+    if (!activeFolderId) return;
+    setIsQuizHistoryLoading(true);
+    try {
+      const res = await fetch(`${API_URL}/quizzes?folderId=${activeFolderId}`, { headers });
+      const data = await res.json();
+      setQuizHistory(Array.isArray(data) ? data : []);
+    } catch (err) {
+      console.error(err);
+      setQuizHistory([]);
+    }
+    setIsQuizHistoryLoading(false);
+  };
+
+  const showQuizSession = (session: QuizSessionDetail, mistakesOnly: boolean) => {
+    setStudyData({ ...session.questions, sessionId: session.id });
+    setQuizSessionId(session.id);
+    setMcqAnswers(session.mcqAnswers || {});
+    setSaqAnswers(session.saqAnswers || {});
+    setSaqResults(session.saqResults || {});
+    setFlippedFlashcards({});
+    setShowMistakesOnly(mistakesOnly);
+    setStudySubMode('quiz');
+  };
+
+  const reviewQuizSession = async (id: string) => {
+    try {
+      const res = await fetch(`${API_URL}/quizzes/${id}`, { headers });
+      const data = await res.json();
+      if (!res.ok) return alert(data.error || 'Failed to load quiz');
+      showQuizSession(data, true);
+    } catch (err) { console.error(err); }
+  };
+
+  const retakeQuizSession = async (id: string) => {
+    try {
+      const res = await fetch(`${API_URL}/quizzes/${id}/retake`, { method: 'POST', headers });
+      const data = await res.json();
+      if (!res.ok) return alert(data.error || 'Failed to start retake');
+      showQuizSession(data, false);
+    } catch (err) { console.error(err); }
+  };
+
+  const deleteQuizSession = async (id: string) => {
+    if (!confirm('Delete this quiz from your history?')) return;
+    try {
+      const res = await fetch(`${API_URL}/quizzes/${id}`, { method: 'DELETE', headers });
+      if (res.ok) {
+        setQuizHistory(prev => prev.filter(q => q.id !== id));
+        if (quizSessionId === id) setQuizSessionId(null);
+      }
+    } catch (err) { console.error(err); }
+  };
+
   const handleGradeSAQ = async (idx: number, saq: any) => {
     const userAnswer = saqAnswers[idx];
     if (!userAnswer || !userAnswer.trim()) return;
@@ -589,10 +3214,12 @@ function MainApp({ token, username, onLogout }: { token: string, username: strin
       const res = await fetch(`${API_URL}/grade`, {
         method: 'POST',
         headers,
+        // A saved quiz stores the grade with its own copy of the question
         body: JSON.stringify({
           question: saq.question,
           modelAnswer: saq.model_answer,
-          userAnswer: userAnswer.trim()
+          userAnswer: userAnswer.trim(),
+          ...(quizSessionId ? { quizId: quizSessionId, questionIndex: idx } : {})
         })
       });
       const data = await res.json();
@@ -609,16 +3236,22 @@ function MainApp({ token, username, onLogout }: { token: string, username: strin
   };
 
   // Voice Interaction Actions (browser SpeechRecognition + speechSynthesis)
-  const handleSTT = () => {
-    const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
-    if (!SpeechRecognition) {
-      alert('Your browser does not support Speech Recognition. Please try Chrome or Edge.');
+  // Runs one browser speech-recognition turn. onText receives the running
+  // transcript, onDone the final text when recognition ends. With silenceMs the
+  // turn ends by itself once the speaker has paused that long.
+  const startRecognition = ({ onText, onDone, silenceMs }: {
+    onText: (text: string) => void,
+    onDone: (finalText: string) => void,
+    silenceMs?: number
+  }) => {
+    if (resolveEngine(speechSettings.engine, 'stt') === 'server') {
+      startServerRecognition({ onText, onDone, silenceMs });
       return;
     }
 
-    // If already listening, stop current recognition
-    if (isListening && recognitionRef.current) {
-      recognitionRef.current.stop();
+    const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
+    if (!SpeechRecognition) {
+      alert('Your browser does not support Speech Recognition. Switch the speech engine to Server speech in Voice Settings.');
       return;
     }
 
@@ -628,6 +3261,7 @@ function MainApp({ token, username, onLogout }: { token: string, username: strin
     recognition.interimResults = true;
 
     sttFinalRef.current = '';
+    let silenceTimer: ReturnType<typeof setTimeout> | null = null;
 
     recognition.onstart = () => {
       setIsListening(true);
@@ -649,7 +3283,16 @@ function MainApp({ token, username, onLogout }: { token: string, username: strin
 
       sttFinalRef.current = finalText;
       const combined = (finalText + interimText).trim();
-      setChatInput(combined);
+      onText(combined);
+
+      if (silenceMs && combined) {
+        if (silenceTimer) clearTimeout(silenceTimer);
+        silenceTimer = setTimeout(() => {
+          // Keep the words still marked interim when the pause cuts them off
+          sttFinalRef.current = combined;
+          recognition.stop();
+        }, silenceMs);
+      }
     };
 
     recognition.onerror = (event: any) => {
@@ -660,74 +3303,305 @@ function MainApp({ token, username, onLogout }: { token: string, username: strin
     };
 
     recognition.onend = () => {
+      if (silenceTimer) clearTimeout(silenceTimer);
       const finalText = sttFinalRef.current.trim();
       setIsListening(false);
       sttFinalRef.current = '';
       recognitionRef.current = null;
-
-      if (finalText) {
-        setChatInput('');
-        handleSendChatMessage(finalText);
-      }
+      onDone(finalText);
     };
 
     recognitionRef.current = recognition;
     recognition.start();
   };
 
-  const getFemaleVoice = () => {
+  // Same contract as browser recognition, but records audio and transcribes it
+  // on the server once the turn ends. There is no running transcript meanwhile.
+  const startServerRecognition = async ({ onText, onDone, silenceMs }: {
+    onText: (text: string) => void,
+    onDone: (finalText: string) => void,
+    silenceMs?: number
+  }) => {
+    try {
+      const recording = await startRecording({ silenceMs });
+      recognitionRef.current = { stop: recording.stop };
+      setIsListening(true);
+      const audio = await recording.audio;
+      setIsListening(false);
+      recognitionRef.current = null;
+
+      const text = (await transcribeAudio(audio, { apiUrl: API_URL, token })).trim();
+      onText(text);
+      onDone(text);
+    } catch (err) {
+      console.error('Server speech recognition error', err);
+      setIsListening(false);
+      recognitionRef.current = null;
+      const message = err instanceof Error ? err.message : 'Speech recognition failed';
+      setSpeechError(message);
+      alert(message);
+    }
+  };
+
+  const handleSTT = () => {
+    // If already listening, stop current recognition
+    if (isListening && recognitionRef.current) {
+      recognitionRef.current.stop();
+      return;
+    }
+
+    startRecognition({
+      onText: setChatInput,
+      onDone: (finalText) => {
+        if (finalText) {
+          setChatInput('');
+          handleSendChatMessage(finalText);
+        }
+      }
+    });
+  };
+
+  // Viva answers go to the examiner, never to Teacher Mode
+  const startVivaListening = () => {
+    if (recognitionRef.current) return;
+    stopSpeaking();
+    setVivaDraft('');
+    startRecognition({
+      onText: setVivaDraft,
+      onDone: (finalText) => {
+        setVivaDraft('');
+        if (finalText) handleVivaInteraction(finalText);
+      },
+      silenceMs: VIVA_SILENCE_MS
+    });
+  };
+
+  // Push-to-talk: holding the mic ends the answer on release; a short tap
+  // leaves it listening until the student pauses.
+  const handleVivaMicDown = () => {
+    if (recognitionRef.current) {
+      recognitionRef.current.stop();
+      vivaPressRef.current = null;
+      return;
+    }
+    vivaPressRef.current = Date.now();
+    startVivaListening();
+  };
+
+  const handleVivaMicUp = () => {
+    const pressedAt = vivaPressRef.current;
+    vivaPressRef.current = null;
+    if (pressedAt && Date.now() - pressedAt > PUSH_TO_TALK_HOLD_MS) recognitionRef.current?.stop();
+  };
+
+  const toggleVivaVoiceMode = () => {
+    const next = !vivaVoiceMode;
+    setVivaVoiceMode(next);
+    vivaVoiceModeRef.current = next;
+    if (next) {
+      // Read out the question already on screen
+      spokenVivaTurnRef.current = '';
+      setSpeechError(null);
+      const usesServer = resolveEngine(speechSettings.engine, 'tts') === 'server' || resolveEngine(speechSettings.engine, 'stt') === 'server';
+      if (usesServer) {
+        loadServerSpeech().then(config => {
+          if (config && !config.provider) setSpeechError('no speech provider is configured on the server');
+        });
+      }
+    } else {
+      stopSpeaking();
+      recognitionRef.current?.stop();
+    }
+  };
+
+  const getFemaleVoice = (voiceName = speechSettings.voice) => {
     const voices = window.speechSynthesis.getVoices();
     if (!voices || voices.length === 0) return null;
 
-    const preferred = voices.find(v =>
-      /female|woman|samantha|google us english/i.test(v.name)
-    );
-    const enVoice = voices.find(v => /^en(-|_)/i.test(v.lang));
-    return preferred || enVoice || voices[0];
+    const chosen = voiceName && voices.find(v => v.name === voiceName);
+    if (chosen) return chosen;
+
+    const preferred = voices.find(v =>
+      /female|woman|samantha|google us english/i.test(v.name)
+    );
+    const enVoice = voices.find(v => /^en(-|_)/i.test(v.lang));
+    return preferred || enVoice || voices[0];
+  };
+
+  const serverSpeaker = () => {
+    if (!serverSpeakerRef.current) {
+      serverSpeakerRef.current = createServerSpeaker({ apiUrl: API_URL, getToken: () => token });
+    }
+    return serverSpeakerRef.current;
+  };
+
+  const stopSpeaking = () => {
+    if (hasBrowserSynthesis()) window.speechSynthesis.cancel();
+    serverSpeakerRef.current?.cancel();
+    ttsPendingRef.current = 0;
+    setSpeakingIdx(null);
+  };
+
+  const toSpeakableText = (text: string) =>
+    text.replace(/[*_#]/g, '').replace(/\[Citation:.*?\]/g, '').replace(/\[\d+\]/g, '');
+
+  // Appends to the browser's utterance queue without interrupting what is
+  // already being spoken, so streamed sentences play back to back.
+  const queueTTS = (text: string, idx: number, onDone?: () => void, settings = speechSettings) => {
+    const plainText = toSpeakableText(text).trim();
+    if (!plainText) return;
+
+    const finish = () => {
+      ttsPendingRef.current = Math.max(0, ttsPendingRef.current - 1);
+      if (ttsPendingRef.current === 0) setSpeakingIdx(null);
+    };
+
+    if (resolveEngine(settings.engine, 'tts') === 'server') {
+      ttsPendingRef.current += 1;
+      setSpeakingIdx(idx);
+      serverSpeaker().speak(plainText, settings.voice).then(
+        () => { finish(); onDone?.(); },
+        (err) => {
+          if (err.message !== 'cancelled') {
+            console.error('Server TTS error', err);
+            setSpeechError(err.message);
+          }
+          finish();
+        }
+      );
+      return;
+    }
+
+    if (!hasBrowserSynthesis()) return;
+    const utterance = new SpeechSynthesisUtterance(plainText);
+    const voice = getFemaleVoice(settings.voice);
+    if (voice) {
+      utterance.voice = voice;
+    }
+    utterance.onend = () => { finish(); onDone?.(); };
+    // A cancelled utterance (stop button, new question) must not open the mic
+    utterance.onerror = finish;
+
+    ttsPendingRef.current += 1;
+    setSpeakingIdx(idx);
+    window.speechSynthesis.speak(utterance);
   };
 
   const handleTTS = (text: string, idx: number) => {
-    if (!('speechSynthesis' in window)) {
+    if (resolveEngine(speechSettings.engine, 'tts') === 'browser' && !hasBrowserSynthesis()) {
       console.warn('speechSynthesis not supported in this browser.');
       return;
     }
 
     if (speakingIdx === idx) {
-      window.speechSynthesis.cancel();
-      setSpeakingIdx(null);
+      stopSpeaking();
       return;
     }
 
-    window.speechSynthesis.cancel();
+    stopSpeaking();
+    queueTTS(text, idx);
+  };
 
-    const plainText = text.replace(/[*_#]/g, '').replace(/\[Citation:.*?\]/g, '');
-    const utterance = new SpeechSynthesisUtterance(plainText);
+  // The latest speech callbacks for the hands-free effect below, which should
+  // re-run only when the viva itself changes
+  const vivaSpeechRef = useRef({ queueTTS, startVivaListening });
+  useEffect(() => {
+    vivaSpeechRef.current = { queueTTS, startVivaListening };
+  });
 
-    const voice = getFemaleVoice();
-    if (voice) {
-      utterance.voice = voice;
+  // Hands-free viva: read each new examiner turn aloud, then listen for the answer
+  useEffect(() => {
+    if (!vivaVoiceMode || !vivaSession || studySubMode !== 'viva') return;
+    const messages = vivaSession.messages || [];
+    const last = messages[messages.length - 1];
+    const turnKey = `${vivaSession.id}:${messages.length}`;
+    if (!last || last.role !== 'ai' || spokenVivaTurnRef.current === turnKey) return;
+    spokenVivaTurnRef.current = turnKey;
+
+    const awaitingAnswer = vivaSession.status === 'active';
+    stopSpeaking();
+    vivaSpeechRef.current.queueTTS(last.content, VIVA_SPEAKING_IDX, () => {
+      if (awaitingAnswer && vivaVoiceModeRef.current) vivaSpeechRef.current.startVivaListening();
+    });
+  }, [vivaSession, vivaVoiceMode, studySubMode]);
+
+  const loadServerSpeech = async () => {
+    if (serverSpeech) return serverSpeech;
+    try {
+      const res = await fetch(`${API_URL}/speech/config`, { headers });
+      if (!res.ok) return null;
+      const config = await res.json();
+      setServerSpeech(config);
+      return config as NonNullable<typeof serverSpeech>;
+    } catch (err) {
+      console.error(err);
+      return null;
     }
+  };
 
-    utterance.onend = () => {
-      setSpeakingIdx(null);
-    };
-    utterance.onerror = () => {
-      setSpeakingIdx(null);
-    };
+  const openSpeechSettings = () => {
+    setIsSpeechSettingsOpen(true);
+    loadServerSpeech();
+  };
 
-    setSpeakingIdx(idx);
-    window.speechSynthesis.speak(utterance);
+  // Logging out clears this device's offline copy, so unsynced changes would be lost
+  const logout = async () => {
+    if (pendingChanges > 0 && !window.confirm(`${pendingChanges} offline ${pendingChanges === 1 ? 'change has' : 'changes have'} not synced yet and will be lost. Log out anyway?`)) return;
+    await clearOfflineData().catch(err => console.error(err));
+    onLogout();
   };
 
   // Render variables
   const activeNote = notes.find(n => n.id === activeNoteId) || null;
   const activeFolder = folders.find(f => f.id === activeFolderId) || null;
 
-  const currentFolderNotes = notes.filter(n => n.folder_id === activeFolderId);
+  const outline = activeNote ? parseHeadings(activeNote.content || '') : [];
+  const activePages = activeNote && showSource ? splitPages(activeNote.content || '') : [];
+
+  // A [[link]] goes to the first note in the list with that title
+  const noteByTitle = (title: string) => notes.find(n => n.title && linkKey(n.title) === linkKey(title));
+  // Notes linking to the open one, each with its first link to it
+  const activeTitleKey = linkKey(activeNote?.title || '');
+  const backlinks = activeNote && showBacklinks && activeTitleKey
+    ? notes.flatMap(n => {
+      const link = n.id === activeNote.id ? undefined : findLinks(n.content || '').find(l => linkKey(l.title) === activeTitleKey);
+      return link ? [{ note: n, link }] : [];
+    })
+    : [];
+  // Titles for the [[link]] being typed, those starting with it first
+  const linkQueryKey = linkKey(linkSuggest?.query || '');
+  const linkSuggestions = activeNote && linkSuggest?.noteId === activeNote.id
+    ? notes
+      .filter(n => n.id !== activeNote.id && n.title?.trim() && linkKey(n.title).includes(linkQueryKey))
+      .filter((n, i, list) => list.findIndex(other => linkKey(other.title) === linkKey(n.title)) === i)
+      .sort((a, b) => Number(linkKey(b.title).startsWith(linkQueryKey)) - Number(linkKey(a.title).startsWith(linkQueryKey)))
+      .slice(0, 8)
+    : [];
+
+  // Outline clicks scroll the preview to the heading and select it in the source
+  const jumpToHeading = (index: number) => {
+    const heading = outline[index];
+    if (!activeNote || !heading) return;
+    if (editorView !== 'write') {
+      previewRef.current?.querySelectorAll('h1, h2, h3, h4, h5, h6')[index]?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    }
+    if (editorView !== 'preview') {
+      setHighlight({ noteId: activeNote.id, start: heading.start, end: heading.end });
+    }
+  };
+
+  // A subject or topic lists the notes of every topic below it too
+  const activeScope = activeFolderId ? subtreeIds(folders, activeFolderId) : new Set<string>();
+  const currentFolderNotes = notes.filter(n => activeScope.has(n.folder_id));
+  // Offline, or when the server search fails, the open folder is filtered locally
   const filteredNotes = currentFolderNotes.filter(n =>
     n.title?.toLowerCase().includes(searchQuery.toLowerCase()) ||
     n.content?.toLowerCase().includes(searchQuery.toLowerCase())
   );
+  const searchHits = searchResults?.key === searchKey ? searchResults.hits : undefined;
+  const isServerSearch = !!searchTerm && isOnline && searchHits !== null;
+  const listedNoteIds = isServerSearch ? (searchHits || []).map(hit => hit.id) : filteredNotes.map(n => n.id);
+  const hasSearchFilters = searchFilters.scope !== 'folder' || !!searchFilters.type || !!searchFilters.from || !!searchFilters.to;
 
   const formatDate = (dateString: string) => {
     if (!dateString) return '';
@@ -749,21 +3623,20 @@ function MainApp({ token, username, onLogout }: { token: string, username: strin
           <div className="user-profile">
             <User size={16} />
             <span className="truncate">{username}</span>
-            <button className="icon-btn" onClick={onLogout} title="Logout" style={{ marginLeft: 'auto' }}>
+            <button className="icon-btn" onClick={logout} title="Logout" style={{ marginLeft: 'auto' }}>
               <LogOut size={16} />
             </button>
           </div>
 
           <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginTop: '1rem' }}>
             <span style={{ fontSize: '0.85rem', fontWeight: 600, color: 'var(--text-secondary)', textTransform: 'uppercase', letterSpacing: '0.05em' }}>
-              Subjects ({folders.length}/{MAX_FOLDERS})
+              Subjects
             </span>
             <button
               className="action-btn-circle"
               style={{ width: '28px', height: '28px' }}
-              onClick={() => setIsFolderModalOpen(true)}
-              disabled={folders.length >= MAX_FOLDERS}
-              title={folders.length >= MAX_FOLDERS ? "Max limit reached" : "New Folder"}
+              onClick={() => openFolderDialog(null)}
+              title="New Subject"
             >
               <FolderPlus size={16} />
             </button>
@@ -776,22 +3649,48 @@ function MainApp({ token, username, onLogout }: { token: string, username: strin
               No subjects yet.
             </div>
           ) : (
-            folders.map(folder => (
+            folderRows(folders, collapsedFolders).map(({ folder, depth, hasChildren }) => (
               <div
                 key={folder.id}
-                className={`folder-item ${folder.id === activeFolderId ? 'active' : ''}`}
+                className={`folder-item ${folder.id === activeFolderId ? 'active' : ''} ${folder.id === draggedFolderId ? 'dragging' : ''} ${folderDrop?.folderId === folder.id ? `drop-${folderDrop.place}` : ''}`}
+                style={{ paddingLeft: `${0.5 + depth * 1}rem` }}
+                draggable
+                onDragStart={(e) => {
+                  e.dataTransfer.effectAllowed = 'move';
+                  e.dataTransfer.setData('text/plain', folder.id);
+                  setDraggedFolderId(folder.id);
+                }}
+                onDragOver={(e) => handleFolderDragOver(e, folder)}
+                onDragLeave={() => setFolderDrop(prev => prev?.folderId === folder.id ? null : prev)}
+                onDrop={(e) => handleFolderDrop(e, folder)}
+                onDragEnd={() => { setDraggedFolderId(null); setFolderDrop(null); }}
                 onClick={() => {
                   setActiveFolderId(folder.id);
                   setActiveNoteId(null);
+                  setSelectedNoteIds(new Set());
                   if (window.innerWidth <= 900) setIsSidebarOpen(true);
                 }}
               >
                 <div className="folder-item-content">
+                  <button
+                    className="folder-toggle"
+                    style={{ visibility: hasChildren ? 'visible' : 'hidden' }}
+                    onClick={(e) => { e.stopPropagation(); toggleFolderCollapsed(folder.id); }}
+                    aria-label={collapsedFolders.has(folder.id) ? 'Expand' : 'Collapse'}
+                  >
+                    {collapsedFolders.has(folder.id) ? <ChevronRight size={14} /> : <ChevronDown size={14} />}
+                  </button>
                   <Folder size={18} className="folder-icon" fill={folder.id === activeFolderId ? "currentColor" : "none"} />
                   <span className="folder-name">{folder.name}</span>
                 </div>
 
                 <div className="folder-actions">
+                  <button className="icon-btn" onClick={(e) => { e.stopPropagation(); openFolderDialog(folder.id); }} title="New Topic">
+                    <FolderPlus size={14} />
+                  </button>
+                  <button className="icon-btn" onClick={(e) => { e.stopPropagation(); openFolderDialog(folder.parent_id || null, folder); }} title="Rename Folder">
+                    <Pencil size={14} />
+                  </button>
                   <button className="icon-btn danger" onClick={(e) => deleteFolder(folder.id, e)} title="Delete Folder">
                     <Trash2 size={14} />
                   </button>
@@ -802,6 +3701,14 @@ function MainApp({ token, username, onLogout }: { token: string, username: strin
         </div>
 
         <div style={{ marginTop: 'auto', padding: '1rem', borderTop: '1px solid var(--panel-border)', display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+          <ConnectivityStatus
+            isOnline={isOnline}
+            isSyncing={isSyncing}
+            pending={pendingChanges}
+            error={syncError}
+            onSync={syncPendingChanges}
+          />
+
           <button
             className={`btn ${isStudyMode ? 'btn-primary' : 'btn-secondary'}`}
             style={{ width: '100%', display: 'flex', alignItems: 'center', justifyContent: 'center', gap: '0.5rem' }}
@@ -821,11 +3728,46 @@ function MainApp({ token, username, onLogout }: { token: string, username: strin
             <Bot size={18} />
             {isChatOpen ? 'Close Teacher Mode' : 'Teacher Mode'}
           </button>
+
+          <button
+            className="btn btn-secondary"
+            style={{ width: '100%', display: 'flex', alignItems: 'center', justifyContent: 'center', gap: '0.5rem' }}
+            onClick={openSpeechSettings}
+          >
+            <Settings size={18} />
+            Voice Settings
+          </button>
+
+          <button
+            className="btn btn-secondary"
+            style={{ width: '100%', display: 'flex', alignItems: 'center', justifyContent: 'center', gap: '0.5rem' }}
+            onClick={openTrash}
+          >
+            <Trash2 size={18} />
+            Trash
+          </button>
         </div>
       </nav>
 
       {/* Secondary Sidebar - Notes */}
-      <aside className={`sidebar ${!isSidebarOpen ? 'hidden' : ''}`}>
+      <aside
+        className={`sidebar ${!isSidebarOpen ? 'hidden' : ''}`}
+        onDragOver={(e) => {
+          if (!activeFolderId || !e.dataTransfer.types.includes('Files')) return;
+          e.preventDefault();
+          setIsDraggingFiles(true);
+        }}
+        onDragLeave={(e) => {
+          if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDraggingFiles(false);
+        }}
+        onDrop={handleFileDrop}
+      >
+        {isDraggingFiles && (
+          <div className="upload-drop-overlay">
+            <Upload size={28} />
+            <span>Drop files to import into {activeFolder?.name}</span>
+          </div>
+        )}
         <div className="sidebar-header" style={{ padding: '1rem 1.5rem', borderBottom: 'none', flexDirection: 'column', alignItems: 'flex-start', gap: '0.5rem' }}>
           <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', color: 'var(--text-primary)', fontSize: '1.25rem', fontWeight: 600 }}>
             {activeFolder ? activeFolder.name : "Select a Subject"}
@@ -841,18 +3783,26 @@ function MainApp({ token, username, onLogout }: { token: string, username: strin
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
               style={{
-                width: '100%', padding: '0.6rem 0.6rem 0.6rem 2.2rem', backgroundColor: 'rgba(42, 37, 41, 0.05)', borderRadius: '8px', color: 'var(--text-primary)', fontSize: '0.9rem'
+                width: '100%', padding: '0.6rem 2.2rem 0.6rem 2.2rem', backgroundColor: 'rgba(42, 37, 41, 0.05)', borderRadius: '8px', color: 'var(--text-primary)', fontSize: '0.9rem'
               }}
             />
+            <button
+              className={`icon-btn search-filter-toggle ${showSearchFilters || hasSearchFilters ? 'active' : ''}`}
+              onClick={() => setShowSearchFilters(show => !show)}
+              title="Search filters"
+            >
+              <SlidersHorizontal size={14} />
+            </button>
           </div>
           <label
             className="action-btn-circle"
-            title="Upload Note (TXT or PDF)"
+            title="Import notes: PDF, Word, PowerPoint, Markdown, HTML, text or images (or drop files here)"
             style={{ flexShrink: 0, borderRadius: '8px', width: '38px', height: '38px', cursor: !activeFolderId || isUploading ? 'not-allowed' : 'pointer', opacity: !activeFolderId || isUploading ? 0.5 : 1, display: 'flex', alignItems: 'center', justifyContent: 'center' }}
           >
             <input
               type="file"
-              accept=".txt,.pdf,application/pdf,text/plain"
+              accept={UPLOAD_EXTENSIONS.join(',')}
+              multiple
               onChange={handleFileUpload}
               disabled={!activeFolderId || isUploading}
               style={{ display: 'none' }}
@@ -868,10 +3818,140 @@ function MainApp({ token, username, onLogout }: { token: string, username: strin
           >
             <Plus size={20} />
           </button>
+          <button
+            className={`action-btn-circle ${isSelectingNotes ? 'active' : ''}`}
+            onClick={() => isSelectingNotes ? exitNoteSelection() : setIsSelectingNotes(true)}
+            disabled={!activeFolderId}
+            style={{ flexShrink: 0, borderRadius: '8px', width: '38px', height: '38px' }}
+            title={isSelectingNotes ? 'Stop selecting' : 'Select notes'}
+          >
+            <ListChecks size={20} />
+          </button>
         </div>
 
+        {showSearchFilters && (
+          <div className="search-filters">
+            <select
+              value={searchFilters.scope}
+              onChange={(e) => setSearchFilters(prev => ({ ...prev, scope: e.target.value }))}
+              title="Where to search"
+            >
+              <option value="folder" disabled={!activeFolder}>{activeFolder ? `In ${activeFolder.name}` : 'Open subject'}</option>
+              <option value="all">All subjects</option>
+              {folders.filter(f => !f.parent_id).map(f => (
+                <option key={f.id} value={f.id}>{f.name}</option>
+              ))}
+            </select>
+            <select
+              value={searchFilters.type}
+              onChange={(e) => setSearchFilters(prev => ({ ...prev, type: e.target.value }))}
+              title="File type"
+            >
+              <option value="">Any file type</option>
+              {SEARCH_FILE_TYPES.map(type => (
+                <option key={type.value} value={type.value}>{type.label}</option>
+              ))}
+            </select>
+            <label>
+              From
+              <input type="date" value={searchFilters.from} max={searchFilters.to || undefined} onChange={(e) => setSearchFilters(prev => ({ ...prev, from: e.target.value }))} />
+            </label>
+            <label>
+              To
+              <input type="date" value={searchFilters.to} min={searchFilters.from || undefined} onChange={(e) => setSearchFilters(prev => ({ ...prev, to: e.target.value }))} />
+            </label>
+            {hasSearchFilters && (
+              <button className="search-filters-reset" onClick={() => setSearchFilters({ scope: 'folder', type: '', from: '', to: '' })}>
+                Clear filters
+              </button>
+            )}
+          </div>
+        )}
+
+        {isSelectingNotes && (
+          <div className="note-selection-bar">
+            <label className="note-selection-all">
+              <input
+                type="checkbox"
+                checked={listedNoteIds.length > 0 && listedNoteIds.every(id => selectedNoteIds.has(id))}
+                onChange={(e) => setSelectedNoteIds(e.target.checked ? new Set(listedNoteIds) : new Set())}
+              />
+              {selectedNoteIds.size} selected
+            </label>
+            <div className="note-selection-actions">
+              <button className="icon-btn" disabled={!selectedNoteIds.size} onClick={() => setBatchDialog('move')} title="Move to...">
+                <FolderInput size={16} />
+              </button>
+              <button className="icon-btn" disabled={!selectedNoteIds.size} onClick={() => setBatchDialog('copy')} title="Copy to...">
+                <Copy size={16} />
+              </button>
+              <button className="icon-btn" disabled={!selectedNoteIds.size} onClick={batchExport} title="Export as markdown (.zip)">
+                <Download size={16} />
+              </button>
+              <button className="icon-btn danger" disabled={!selectedNoteIds.size} onClick={batchDelete} title="Delete">
+                <Trash2 size={16} />
+              </button>
+            </div>
+          </div>
+        )}
+
+        {uploadProgress && (
+          <div className="upload-progress">
+            <div className="upload-progress-label">
+              <span className="truncate">
+                {uploadProgress.percent < 100 ? 'Uploading' : 'Extracting text from'} {uploadProgress.fileName}
+              </span>
+              {uploadProgress.total > 1 && <span>{uploadProgress.index}/{uploadProgress.total}</span>}
+            </div>
+            <div className={`upload-progress-bar ${uploadProgress.percent >= 100 ? 'processing' : ''}`}>
+              <div style={{ width: `${uploadProgress.percent}%` }} />
+            </div>
+          </div>
+        )}
+
         <div className="notes-list">
-          {!activeFolderId ? (
+          {isServerSearch ? (
+            searchHits === undefined ? (
+              <div className="empty-state">Searching...</div>
+            ) : searchHits.length === 0 ? (
+              <div className="empty-state">No notes found.</div>
+            ) : (
+              searchHits.map(hit => {
+                const note = notes.find(n => n.id === hit.id);
+                const match = note ? locateMatch(note.content || '', hit.snippet) : null;
+                const page = note && match ? pageAtOffset(splitPages(note.content || ''), match.start) : null;
+                return (
+                  <div
+                    key={hit.id}
+                    className={`note-item search-result ${hit.id === activeNoteId ? 'active' : ''} ${selectedNoteIds.has(hit.id) ? 'selected' : ''}`}
+                    onClick={() => isSelectingNotes ? toggleNoteSelection(hit.id) : openSearchHit(hit)}
+                  >
+                    <div className="note-title" style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                      {isSelectingNotes && (
+                        <input
+                          type="checkbox"
+                          checked={selectedNoteIds.has(hit.id)}
+                          onChange={() => toggleNoteSelection(hit.id)}
+                          onClick={e => e.stopPropagation()}
+                          aria-label={`Select ${note?.title || 'Untitled Note'}`}
+                        />
+                      )}
+                      <span className="truncate">{hit.title ? <Highlighted text={hit.title} /> : 'Untitled Note'}</span>
+                    </div>
+                    <div className="note-preview search-snippet">
+                      <Highlighted text={stripPageMarkers(hit.snippet) || 'No additional text...'} />
+                    </div>
+                    <div className="note-date">
+                      <span className="truncate">
+                        {formatDate(hit.updated_at)} · {folderPath(folders, hit.folder_id)}
+                        {page !== null && ` · p. ${page}`}
+                      </span>
+                    </div>
+                  </div>
+                );
+              })
+            )
+          ) : !activeFolderId ? (
             <div className="empty-state">Select or create a subject to view notes.</div>
           ) : filteredNotes.length === 0 ? (
             <div className="empty-state">
@@ -881,15 +3961,43 @@ function MainApp({ token, username, onLogout }: { token: string, username: strin
             filteredNotes.map(note => (
               <div
                 key={note.id}
-                className={`note-item ${note.id === activeNoteId ? 'active' : ''}`}
+                className={`note-item ${note.id === activeNoteId ? 'active' : ''} ${selectedNoteIds.has(note.id) ? 'selected' : ''}`}
                 onClick={() => {
+                  if (isSelectingNotes) return toggleNoteSelection(note.id);
                   setActiveNoteId(note.id);
                   if (window.innerWidth <= 900) setIsSidebarOpen(false);
                 }}
               >
-                <div className="note-title">{note.title || 'Untitled Note'}</div>
+                <div className="note-title" style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                  {isSelectingNotes && (
+                    <input
+                      type="checkbox"
+                      checked={selectedNoteIds.has(note.id)}
+                      onChange={() => toggleNoteSelection(note.id)}
+                      onClick={e => e.stopPropagation()}
+                      aria-label={`Select ${note.title || 'Untitled Note'}`}
+                    />
+                  )}
+                  <span className="truncate">{note.title || 'Untitled Note'}</span>
+                </div>
                 <div className="note-preview">{note.content || 'No additional text...'}</div>
-                <div className="note-date">{formatDate(note.updated_at)}</div>
+                <div className="note-date" style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '0.5rem' }}>
+                  <span className="truncate">
+                    {formatDate(note.updated_at)}
+                    {note.folder_id !== activeFolderId && ` · ${folders.find(f => f.id === note.folder_id)?.name || ''}`}
+                  </span>
+                  {note.index_status && (
+                    <span className={`index-status ${note.index_status}`} title={note.index_error || INDEX_STATUS_LABELS[note.index_status]}>
+                      <span className="index-status-dot" />
+                      {INDEX_STATUS_LABELS[note.index_status]}
+                      {note.index_status === 'failed' && (
+                        <button className="icon-btn" onClick={(e) => retryIndexing(note.id, e)} title="Retry indexing">
+                          <RotateCw size={12} />
+                        </button>
+                      )}
+                    </span>
+                  )}
+                </div>
               </div>
             ))
           )}
@@ -915,7 +4023,7 @@ function MainApp({ token, username, onLogout }: { token: string, username: strin
                   </p>
                 </div>
 
-                <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: '2rem' }}>
+                <div style={{ display: 'grid', gridTemplateColumns: 'repeat(2, 1fr)', gap: '2rem' }}>
                   {[
                     {
                       id: 'quiz',
@@ -924,12 +4032,21 @@ function MainApp({ token, username, onLogout }: { token: string, username: strin
                       desc: 'AI-generated MCQs and short-answers tailored to your notes.',
                       action: () => { setStudySubMode('quiz'); if (!studyData) handleGenerateStudyMaterial(); },
                     },
+                    {
+                      id: 'flashcards',
+                      title: 'Due Today',
+                      icon: <Layers size={28} />,
+                      desc: deckSummary.total === 0
+                        ? 'Spaced-repetition review of your flashcard deck. Generate a quiz to start the deck.'
+                        : `${deckSummary.due} of ${deckSummary.total} flashcards due for spaced-repetition review.`,
+                      action: startFlashcardReview,
+                    },
                     {
                       id: 'viva',
                       title: 'Oral Examiner',
                       icon: <Mic size={28} />,
-                      desc: 'Defend your knowledge in a strict 3-question structured viva session.',
-                      action: () => { setStudySubMode('viva'); handleVivaInteraction(); },
+                      desc: 'Defend your knowledge in a structured viva session. Choose its length and how strictly you are marked.',
+                      action: openVivaSetup,
                     },
                     {
                       id: 'gap-map',
@@ -992,26 +4109,108 @@ function MainApp({ token, username, onLogout }: { token: string, username: strin
                       <ArrowLeft size={20} />
                     </button>
                     <div className="w-10 h-10 rounded-xl bg-charcoal flex items-center justify-center text-paleivory">
-                      {studySubMode === 'quiz' ? <FileText size={22} /> : studySubMode === 'viva' ? <Mic size={22} /> : <BrainCircuit size={22} />}
+                      {studySubMode === 'quiz' ? <FileText size={22} /> : studySubMode === 'viva' ? <Mic size={22} /> : studySubMode === 'flashcards' ? <Layers size={22} /> : studySubMode === 'history' ? <LineChart size={22} /> : <BrainCircuit size={22} />}
                     </div>
                     <h2 style={{ margin: 0, fontSize: '1.75rem' }}>
-                      {studySubMode === 'quiz' ? 'Practice Quiz' : studySubMode === 'viva' ? 'AI Oral Examiner' : 'Knowledge Map'}
+                      {studySubMode === 'quiz' ? 'Practice Quiz' : studySubMode === 'viva' ? 'AI Oral Examiner' : studySubMode === 'flashcards' ? 'Due Today' : studySubMode === 'history' ? 'Quiz History' : 'Knowledge Map'}
                     </h2>
                   </div>
 
                   {studySubMode === 'quiz' && (
-                    <button
-                      className="btn btn-primary"
-                      onClick={() => handleGenerateStudyMaterial()}
-                      disabled={!activeFolderId || isStudyLoading}
-                      style={{ borderRadius: '12px', padding: '0.75rem 1.5rem' }}
-                    >
-                      {isStudyLoading ? 'Generating...' : 'Refresh Quiz'}
-                    </button>
+                    <div style={{ display: 'flex', gap: '0.5rem' }}>
+                      {showMistakesOnly && (
+                        <button
+                          className="btn btn-secondary"
+                          onClick={() => setShowMistakesOnly(false)}
+                          style={{ borderRadius: '12px', padding: '0.75rem 1.25rem' }}
+                        >
+                          Show All Questions
+                        </button>
+                      )}
+                      <button
+                        className="btn btn-secondary"
+                        onClick={() => { setStudySubMode('history'); fetchQuizHistory(); }}
+                        disabled={!activeFolderId}
+                        style={{ borderRadius: '12px', padding: '0.75rem 1.25rem', display: 'flex', alignItems: 'center', gap: '0.5rem' }}
+                      >
+                        <History size={16} /> History
+                      </button>
+                      <button
+                        className="btn btn-primary"
+                        onClick={() => setIsQuizConfigOpen(true)}
+                        disabled={!activeFolderId || isStudyLoading}
+                        style={{ borderRadius: '12px', padding: '0.75rem 1.5rem' }}
+                      >
+                        {isStudyLoading ? 'Generating...' : 'New Quiz'}
+                      </button>
+                    </div>
                   )}
                 </div>
 
                 {/* Specific Sub-Mode Content */}
+                {studySubMode === 'history' && (
+                  <div className="animate-in fade-in slide-in-from-bottom-4 duration-500">
+                    <section className="quiz-history-chart">
+                      <h3>Scores over time</h3>
+                      <ScoreChart sessions={quizHistory} />
+                    </section>
+
+                    {isQuizHistoryLoading ? (
+                      <div className="flex items-center gap-2 py-4">
+                        <div className="w-4 h-4 border-2 border-charcoal/20 border-t-charcoal rounded-full animate-spin" />
+                        <span className="text-sm opacity-50">Loading past quizzes...</span>
+                      </div>
+                    ) : quizHistory.length === 0 ? (
+                      <div style={{ padding: '2rem', border: '1px dashed rgba(42, 37, 41, 0.2)', borderRadius: '24px', textAlign: 'center' }}>
+                        <p style={{ margin: 0, fontSize: '0.9rem', color: 'var(--text-secondary)' }}>No saved quizzes for this subject yet.</p>
+                      </div>
+                    ) : (
+                      <div className="quiz-history-list">
+                        {quizHistory.map(session => (
+                          <div key={session.id} className="quiz-history-item">
+                            <div style={{ minWidth: 0 }}>
+                              <div className="quiz-history-title">
+                                {session.title}
+                                {session.retakeOf && <span className="quiz-history-tag">Retake</span>}
+                              </div>
+                              <div className="quiz-history-meta">
+                                {new Date(session.createdAt).toLocaleString()} · {session.completedAt
+                                  ? `${session.score} / ${session.maxScore} (${session.maxScore ? Math.round((session.score / session.maxScore) * 100) : 0}%)`
+                                  : `In progress · ${session.score} / ${session.maxScore}`}
+                              </div>
+                            </div>
+                            <div style={{ display: 'flex', gap: '0.5rem', flexShrink: 0 }}>
+                              <button className="btn btn-secondary" onClick={() => reviewQuizSession(session.id)}>Review Mistakes</button>
+                              <button className="btn btn-primary" onClick={() => retakeQuizSession(session.id)}>Retake</button>
+                              <button className="icon-btn danger" title="Delete quiz" onClick={() => deleteQuizSession(session.id)}>
+                                <Trash2 size={14} />
+                              </button>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {studySubMode === 'flashcards' && (
+                  isReviewLoading ? (
+                    <div className="flex items-center gap-2 py-4">
+                      <div className="w-4 h-4 border-2 border-charcoal/20 border-t-charcoal rounded-full animate-spin" />
+                      <span className="text-sm opacity-50">Loading due cards...</span>
+                    </div>
+                  ) : (
+                    <FlashcardReview
+                      card={reviewQueue[0]}
+                      remaining={reviewQueue.length}
+                      reviewed={reviewedCount}
+                      showAnswer={showFlashcardAnswer}
+                      onReveal={() => setShowFlashcardAnswer(true)}
+                      onGrade={handleGradeFlashcard}
+                    />
+                  )
+                )}
+
                 {studySubMode === 'gap-map' && (
                   <div className="animate-in fade-in slide-in-from-bottom-4 duration-500" style={{ padding: '2rem', background: 'rgba(42, 37, 41, 0.03)', borderRadius: '32px', border: '1px solid rgba(42, 37, 41, 0.05)' }}>
                     <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1.5rem' }}>
@@ -1056,6 +4255,9 @@ function MainApp({ token, username, onLogout }: { token: string, username: strin
                                   Target Weakness
                                 </button>
                               )}
+                              <button onClick={() => explainConcept(concept.name)} className="w-full mt-2 py-2 bg-charcoal/5 rounded-lg text-[10px] uppercase font-bold tracking-wider hover:bg-charcoal hover:text-white transition-all">
+                                Explain Concept
+                              </button>
                             </div>
                           );
                         })}
@@ -1064,40 +4266,160 @@ function MainApp({ token, username, onLogout }: { token: string, username: strin
                   </div>
                 )}
 
-                {studySubMode === 'viva' && (
+                {studySubMode === 'viva' && !vivaSession && (
+                  <div className="mx-auto max-w-2xl w-full animate-in fade-in slide-in-from-bottom-4 duration-500">
+                    <div className="viva-setup">
+                      <div className="quiz-config-label">Number of questions</div>
+                      <div className="quiz-config-difficulty">
+                        {VIVA_LENGTHS.map(n => (
+                          <button
+                            key={n}
+                            type="button"
+                            className={vivaSetup.questionLimit === n ? 'active' : ''}
+                            onClick={() => setVivaSetup(prev => ({ ...prev, questionLimit: n }))}
+                          >
+                            {n}
+                          </button>
+                        ))}
+                      </div>
+                      <div className="quiz-config-label">Strictness <span>{VIVA_STRICTNESS_LABELS[vivaSetup.strictness]}</span></div>
+                      <div className="quiz-config-difficulty">
+                        {(Object.keys(VIVA_STRICTNESS_LABELS) as VivaStrictness[]).map(level => (
+                          <button
+                            key={level}
+                            type="button"
+                            className={vivaSetup.strictness === level ? 'active' : ''}
+                            onClick={() => setVivaSetup(prev => ({ ...prev, strictness: level }))}
+                          >
+                            {level}
+                          </button>
+                        ))}
+                      </div>
+                      <button className="btn btn-primary" style={{ marginTop: '1.5rem', width: '100%', padding: '0.75rem' }} onClick={startViva} disabled={isVivaLoading}>
+                        {isVivaLoading ? 'The examiner is preparing...' : 'Start Viva'}
+                      </button>
+                    </div>
+
+                    {vivaHistory.length > 0 && (
+                      <div className="quiz-history-list" style={{ marginTop: '2rem' }}>
+                        {vivaHistory.map(viva => (
+                          <div key={viva.id} className="quiz-history-item">
+                            <div style={{ minWidth: 0 }}>
+                              <div className="quiz-history-title">
+                                {viva.questionLimit}-question viva
+                                <span className="quiz-history-tag">{viva.strictness}</span>
+                              </div>
+                              <div className="quiz-history-meta">
+                                {new Date(viva.createdAt).toLocaleString()} · {viva.status === 'completed' ? `${viva.overallScore}/10` : 'In progress'}
+                              </div>
+                            </div>
+                            <div style={{ display: 'flex', gap: '0.5rem', flexShrink: 0 }}>
+                              <button className="btn btn-secondary" onClick={() => openViva(viva.id)}>
+                                {viva.status === 'completed' ? 'Open Report' : 'Resume'}
+                              </button>
+                              <button className="icon-btn danger" title="Delete viva" onClick={() => deleteViva(viva.id)}>
+                                <Trash2 size={14} />
+                              </button>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {studySubMode === 'viva' && vivaSession?.status === 'completed' && !showVivaTranscript && (
+                  <div className="mx-auto max-w-2xl w-full animate-in fade-in slide-in-from-bottom-4 duration-500">
+                    <VivaReportView
+                      session={vivaSession}
+                      onOpenNote={openCitation}
+                      onExplain={explainConcept}
+                      onShowTranscript={() => setShowVivaTranscript(true)}
+                      onRestart={openVivaSetup}
+                    />
+                  </div>
+                )}
+
+                {studySubMode === 'viva' && vivaSession && (vivaSession.status === 'active' || showVivaTranscript) && (
                   <div className="mx-auto max-w-2xl w-full flex flex-col h-[70vh] bg-white rounded-[40px] shadow-2xl border border-charcoal/5 relative overflow-hidden animate-in zoom-in-95 duration-500">
                     <div style={{ padding: '2.5rem', borderBottom: '1px solid rgba(0,0,0,0.05)', display: 'flex', justifyContent: 'space-between', alignItems: 'center', background: '#FFFFFF' }}>
                       <div style={{ display: 'flex', alignItems: 'center', gap: '1rem' }}>
                         <Bot size={24} />
                         <h2 style={{ margin: 0, fontSize: '1.25rem', fontWeight: 800 }}>Viva Session</h2>
                       </div>
+                      {vivaSession.status === 'active' ? (
+                        <div style={{ display: 'flex', alignItems: 'center', gap: '1rem' }}>
+                          <span className="quiz-history-meta">
+                            Question {Math.min(vivaSession.questionLimit, (vivaSession.messages || []).filter(m => m.role === 'user').length + 1)} of {vivaSession.questionLimit}
+                          </span>
+                          <button
+                            className={`btn ${vivaVoiceMode ? 'btn-primary' : 'btn-secondary'}`}
+                            onClick={toggleVivaVoiceMode}
+                            title="Read questions aloud and answer by voice"
+                            style={{ display: 'flex', alignItems: 'center', gap: '0.4rem' }}
+                          >
+                            <Volume2 size={14} /> Hands-free {vivaVoiceMode ? 'on' : 'off'}
+                          </button>
+                        </div>
+                      ) : (
+                        <button className="btn btn-secondary" onClick={() => setShowVivaTranscript(false)}>Back to Report</button>
+                      )}
                     </div>
+                    {vivaVoiceMode && speechError && vivaSession.status === 'active' && (
+                      <div className="error-message" style={{ margin: '1rem 2rem 0' }}>
+                        Speech is unavailable: {speechError.replace(/\.$/, '')}. Answer by typing, or choose the browser engine in speech settings.
+                      </div>
+                    )}
                     <div style={{ flex: 1, overflowY: 'auto', padding: '2rem', display: 'flex', flexDirection: 'column', gap: '1rem' }}>
-                      {vivaMessages.map((msg, i) => (
-                        <div key={i} style={{
+                      {(vivaSession.messages || []).map((msg, i) => (
+                        <div key={i} className={speakingIdx === VIVA_SPEAKING_IDX && i === (vivaSession.messages || []).length - 1 ? 'viva-speaking' : ''} style={{
                           alignSelf: msg.role === 'ai' ? 'flex-start' : 'flex-end',
                           maxWidth: '85%',
                           padding: '1rem 1.5rem',
                           borderRadius: '24px',
                           background: msg.role === 'ai' ? '#FFFFFF' : 'var(--charcoal)',
                           color: msg.role === 'ai' ? 'var(--charcoal)' : 'white',
-                          boxShadow: '0 4px 12px rgba(0,0,0,0.05)'
+                          boxShadow: '0 4px 12px rgba(0,0,0,0.05)',
+                          whiteSpace: 'pre-wrap'
                         }}>
                           {msg.content}
+                          {msg.role === 'user' && msg.score !== undefined && (
+                            <div className="viva-answer-score" style={{ color: scoreColor(msg.score) }}>
+                              {msg.score}/10{msg.concept ? ` · ${msg.concept}` : ''}
+                            </div>
+                          )}
                         </div>
                       ))}
                       {isVivaLoading && <div className="p-4 rounded-xl bg-charcoal/5 text-sm animate-pulse">Examiner is formulating feedback...</div>}
                     </div>
-                    <div style={{ padding: '2rem', borderTop: '1px solid rgba(0,0,0,0.05)', background: 'white' }}>
-                      <div style={{ display: 'flex', gap: '1rem' }}>
-                        <input
-                          onKeyDown={e => { if (e.key === 'Enter' && (e.target as HTMLInputElement).value) { handleVivaInteraction((e.target as HTMLInputElement).value); (e.target as HTMLInputElement).value = ''; } }}
-                          className="flex-1 p-4 bg-gray-100 rounded-2xl border-none outline-none focus:ring-2 focus:ring-charcoal/20"
-                          placeholder="Defend your thesis..."
-                        />
-                        <button onClick={handleSTT} className="p-4 bg-charcoal text-white rounded-2xl hover:bg-charcoal/90 transition-colors"><Mic size={20} /></button>
+                    {vivaSession.status === 'active' && (
+                      <div style={{ padding: '2rem', borderTop: '1px solid rgba(0,0,0,0.05)', background: 'white' }}>
+                        {(isListening || speakingIdx === VIVA_SPEAKING_IDX) && (
+                          <div className="viva-voice-status">
+                            {isListening ? 'Listening... pause to finish your answer' : 'Examiner is speaking...'}
+                          </div>
+                        )}
+                        <div style={{ display: 'flex', gap: '1rem' }}>
+                          <input
+                            disabled={isVivaLoading}
+                            value={vivaDraft}
+                            onChange={e => setVivaDraft(e.target.value)}
+                            onKeyDown={e => { if (e.key === 'Enter' && vivaDraft.trim()) { handleVivaInteraction(vivaDraft.trim()); setVivaDraft(''); } }}
+                            className="flex-1 p-4 bg-gray-100 rounded-2xl border-none outline-none focus:ring-2 focus:ring-charcoal/20"
+                            placeholder={isListening ? 'Listening...' : 'Defend your thesis...'}
+                          />
+                          <button
+                            onPointerDown={handleVivaMicDown}
+                            onPointerUp={handleVivaMicUp}
+                            disabled={isVivaLoading}
+                            title={isListening ? 'Stop and submit answer' : 'Tap to answer by voice, or hold to talk'}
+                            className={`p-4 text-white rounded-2xl transition-colors ${isListening ? 'bg-red-500 hover:bg-red-600' : 'bg-charcoal hover:bg-charcoal/90'}`}
+                          >
+                            {isListening ? <Square size={20} /> : <Mic size={20} />}
+                          </button>
+                        </div>
                       </div>
-                    </div>
+                    )}
                   </div>
                 )}
 
@@ -1120,6 +4442,7 @@ function MainApp({ token, username, onLogout }: { token: string, username: strin
                             </div>
                             {studyData.mcqs.map((mcq: any, idx: number) => {
                               const isAnswered = mcqAnswers[idx] !== undefined;
+                              if (showMistakesOnly && (!isAnswered || mcqAnswers[idx] === mcq.correct_answer)) return null;
                               return (
                                 <div key={idx} style={{
                                   padding: '2.5rem',
@@ -1135,10 +4458,7 @@ function MainApp({ token, username, onLogout }: { token: string, username: strin
                                       <button
                                         key={key}
                                         disabled={isAnswered}
-                                        onClick={() => {
-                                          setMcqAnswers(prev => ({ ...prev, [idx]: key }));
-                                          recordPerformance(mcq.concept, key === mcq.correct_answer);
-                                        }}
+                                        onClick={() => answerObjective(String(idx), mcq.concept, key, key === mcq.correct_answer)}
                                         style={{
                                           padding: '1.25rem 1.5rem',
                                           textAlign: 'left',
@@ -1151,18 +4471,64 @@ function MainApp({ token, username, onLogout }: { token: string, username: strin
                                       </button>
                                     ))}
                                   </div>
+                                  {isAnswered && mcq.explanation && (
+                                    <div style={{ marginTop: '1.5rem', padding: '1.25rem 1.5rem', background: 'rgba(42, 37, 41, 0.03)', borderRadius: '16px' }}>
+                                      <p style={{ margin: 0, lineHeight: 1.6 }}>{mcq.explanation}</p>
+                                      <StudyCitations citations={mcq.citations} onOpen={openCitation} />
+                                      <ExplainConceptButton concept={mcq.concept} onExplain={explainConcept} />
+                                    </div>
+                                  )}
                                 </div>
                               );
                             })}
                           </section>
                         )}
 
-                        {studyData.flashcards && studyData.flashcards.length > 0 && (
+                        {[
+                          { key: 'multi_select_questions' as const, title: 'Multi-Select', unit: 'Questions' },
+                          { key: 'true_false_questions' as const, title: 'True or False', unit: 'Statements' },
+                          { key: 'fill_blank_questions' as const, title: 'Fill in the Blank', unit: 'Sentences' }
+                        ].map(({ key, title, unit }) => {
+                          const items: (TrueFalseItem | FillBlankItem | MultiSelectItem)[] = studyData[key] || [];
+                          if (items.length === 0) return null;
+                          const { prefix } = OBJECTIVE_TYPES[key];
+                          return (
+                            <section key={key} style={{ marginBottom: '4rem' }}>
+                              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-end', borderBottom: '1px solid var(--panel-border)', paddingBottom: '0.5rem', marginBottom: '2rem' }}>
+                                <h3 style={{ margin: 0, fontFamily: 'Merriweather, serif' }}>{title}</h3>
+                                <span style={{ fontSize: '0.8rem', color: 'rgba(42, 37, 41, 0.5)', fontWeight: 600, textTransform: 'uppercase', letterSpacing: '0.05em' }}>
+                                  {items.length} {unit}
+                                </span>
+                              </div>
+                              {items.map((item, idx) => {
+                                const answerKey = `${prefix}${idx}`;
+                                const answer = mcqAnswers[answerKey];
+                                const onAnswer = (value: string, correct: boolean) => answerObjective(answerKey, item.concept, value, correct);
+                                if (showMistakesOnly && answer === undefined) return null;
+                                if (key === 'true_false_questions') {
+                                  const tf = item as TrueFalseItem;
+                                  if (showMistakesOnly && answer === String(tf.answer)) return null;
+                                  return <TrueFalseQuestion key={`${studyData.sessionId}-${idx}`} question={tf} answer={answer} onAnswer={onAnswer} onOpen={openCitation} onExplain={explainConcept} />;
+                                }
+                                if (key === 'multi_select_questions') {
+                                  const ms = item as MultiSelectItem;
+                                  if (showMistakesOnly && answer === [...ms.correct_answers].sort().join(',')) return null;
+                                  return <MultiSelectQuestion key={`${studyData.sessionId}-${idx}`} question={ms} answer={answer} onAnswer={onAnswer} onOpen={openCitation} onExplain={explainConcept} />;
+                                }
+                                const fb = item as FillBlankItem;
+                                if (showMistakesOnly && [fb.answer, ...(fb.accepted_answers || [])].some(a => normalizeBlank(a) === normalizeBlank(answer))) return null;
+                                return <FillBlankQuestion key={`${studyData.sessionId}-${idx}`} question={fb} answer={answer} onAnswer={onAnswer} onOpen={openCitation} onExplain={explainConcept} />;
+                              })}
+                            </section>
+                          );
+                        })}
+
+                        {!showMistakesOnly && studyData.flashcards && studyData.flashcards.length > 0 && (
                           <section style={{ marginBottom: '4rem' }}>
                             <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-end', borderBottom: '1px solid var(--panel-border)', paddingBottom: '0.5rem', marginBottom: '2rem' }}>
                               <h3 style={{ margin: 0, fontFamily: 'Merriweather, serif' }}>Flashcards</h3>
                               <span style={{ fontSize: '0.8rem', color: 'rgba(42, 37, 41, 0.5)', fontWeight: 600, textTransform: 'uppercase', letterSpacing: '0.05em' }}>
-                                {studyData.flashcards.length} Cards
+                                {studyData.flashcards.length} Cards · Saved to deck
                               </span>
                             </div>
                             <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(280px, 1fr))', gap: '2rem' }}>
@@ -1246,6 +4612,7 @@ function MainApp({ token, username, onLogout }: { token: string, username: strin
                             {studyData.short_answer_questions.map((saq: any, idx: number) => {
                               const result = saqResults[idx];
                               const score = result ? result.score : 0;
+                              if (showMistakesOnly && (!result || result.score >= 5)) return null;
                               const getScoreColor = (s: number) => {
                                 if (s >= 8) return '#22c55e';
                                 if (s >= 5) return '#eab308';
@@ -1329,6 +4696,13 @@ function MainApp({ token, username, onLogout }: { token: string, username: strin
                                         <Bot size={16} /> Examiner Feedback
                                       </div>
                                       <p style={{ margin: 0, color: 'var(--text-primary)', lineHeight: 1.6 }}>{result.feedback}</p>
+                                      {saq.model_answer && (
+                                        <p style={{ margin: '1rem 0 0', color: 'var(--text-secondary)', lineHeight: 1.6 }}>
+                                          <strong>Model answer:</strong> {saq.model_answer}
+                                        </p>
+                                      )}
+                                      <StudyCitations citations={saq.citations} onOpen={openCitation} />
+                                      <ExplainConceptButton concept={saq.concept} onExplain={explainConcept} />
                                     </div>
                                   )}
                                 </div>
@@ -1362,8 +4736,80 @@ function MainApp({ token, username, onLogout }: { token: string, username: strin
                 <div className="date-display">
                   Last updated {formatDate(activeNote.updated_at)}
                 </div>
+                {saveStatus[activeNote.id] && (
+                  <button
+                    type="button"
+                    className={`save-status ${saveStatus[activeNote.id]}`}
+                    disabled={saveStatus[activeNote.id] !== 'error'}
+                    onClick={() => flushNoteSave(activeNote.id)}
+                  >
+                    <span className="save-status-dot" />
+                    {SAVE_STATUS_LABELS[saveStatus[activeNote.id]]}
+                  </button>
+                )}
               </div>
               <div className="editor-actions">
+                <div className="editor-view-toggle">
+                  {EDITOR_VIEWS.map(({ view, label, Icon }) => (
+                    <button
+                      key={view}
+                      className={`editor-view-btn ${editorView === view ? 'active' : ''}`}
+                      onClick={() => setEditorView(view)}
+                      title={label}
+                    >
+                      <Icon size={16} />
+                    </button>
+                  ))}
+                </div>
+                <button
+                  className={`action-btn ${showOutline ? 'active' : ''}`}
+                  onClick={() => setShowOutline(!showOutline)}
+                  title="Heading outline"
+                >
+                  <ListTree size={18} />
+                </button>
+                <button
+                  className={`action-btn ${showBacklinks ? 'active' : ''}`}
+                  onClick={() => setShowBacklinks(!showBacklinks)}
+                  title="Backlinks: notes that link here"
+                >
+                  <Link2 size={18} />
+                </button>
+                {editorView !== 'preview' && editorSelection && editorSelection.length <= 120 && (
+                  <button
+                    className="action-btn"
+                    onMouseDown={e => e.preventDefault()}
+                    onClick={() => explainConcept(editorSelection)}
+                    title="Explain the selected text from your notes"
+                  >
+                    <Lightbulb size={18} />
+                  </button>
+                )}
+                {activeNote.source_key && (
+                  <>
+                    <button
+                      className={`action-btn ${showSource ? 'active' : ''}`}
+                      onClick={() => setShowSource(!showSource)}
+                      title="Compare with the original file"
+                    >
+                      <FileSearch size={18} />
+                    </button>
+                    <button
+                      className="action-btn"
+                      onClick={() => downloadSource(activeNote)}
+                      title={`Download ${activeNote.source_name || 'original file'}`}
+                    >
+                      <Download size={18} />
+                    </button>
+                  </>
+                )}
+                <button
+                  className="action-btn"
+                  onClick={() => openNoteHistory(activeNote.id)}
+                  title="Revision history"
+                >
+                  <History size={18} />
+                </button>
                 <button
                   className="action-btn danger"
                   onClick={() => deleteNote(activeNote.id)}
@@ -1374,26 +4820,146 @@ function MainApp({ token, username, onLogout }: { token: string, username: strin
               </div>
             </div>
 
-            <div className="editor-content">
+            <div className={`editor-content ${editorView === 'split' ? 'split' : ''}`}>
               <input
                 type="text"
                 className="title-input"
                 placeholder="Note Title"
                 value={activeNote.title || ''}
-                onChange={(e) => {
-                  updateNoteLocally(activeNote.id, { title: e.target.value });
-                  saveNoteToServer(activeNote.id, e.target.value, activeNote.content);
-                }}
-              />
-              <textarea
-                className="body-input"
-                placeholder="Start writing..."
-                value={activeNote.content || ''}
-                onChange={(e) => {
-                  updateNoteLocally(activeNote.id, { content: e.target.value });
-                  saveNoteToServer(activeNote.id, activeNote.title, e.target.value);
-                }}
+                onChange={(e) => editNote(activeNote.id, { title: e.target.value })}
               />
+              <div className="note-editor-body">
+                {showOutline && (
+                  <nav className="note-outline">
+                    <div className="note-outline-title">Outline</div>
+                    {outline.length === 0 ? (
+                      <p className="note-outline-empty">Start a line with #, ## or ### to add a heading.</p>
+                    ) : outline.map((heading, i) => (
+                      <button
+                        key={i}
+                        type="button"
+                        className="note-outline-item"
+                        style={{ paddingLeft: `${0.5 + (heading.level - 1) * 0.75}rem` }}
+                        onClick={() => jumpToHeading(i)}
+                      >
+                        {heading.title}
+                      </button>
+                    ))}
+                  </nav>
+                )}
+                {showSource && activeNote.source_key && (
+                  <SourceViewer
+                    key={activeNote.id}
+                    noteId={activeNote.id}
+                    token={token}
+                    sourceType={activeNote.source_type}
+                    page={sourcePage?.noteId === activeNote.id ? sourcePage.page : activePages[0]?.page ?? 1}
+                    onPageChange={(page) => showSourcePage(activeNote, page)}
+                  />
+                )}
+                {editorView !== 'preview' && (
+                  <div className="body-input-wrap">
+                    <textarea
+                      ref={bodyInputRef}
+                      className="body-input"
+                      placeholder="Start writing in markdown... Type [[ to link another note."
+                      value={activeNote.content || ''}
+                      onChange={(e) => {
+                        setHighlight(null);
+                        editNote(activeNote.id, { content: e.target.value });
+                        updateLinkSuggest(activeNote.id, e.currentTarget);
+                      }}
+                      onSelect={(e) => {
+                        const { selectionStart, selectionEnd, value } = e.currentTarget;
+                        setEditorSelection(value.slice(selectionStart, selectionEnd).trim());
+                        updateLinkSuggest(activeNote.id, e.currentTarget);
+                        if (showSource && activePages.length) {
+                          const page = pageAtOffset(activePages, selectionStart);
+                          if (page) setSourcePage({ noteId: activeNote.id, page });
+                        }
+                      }}
+                      onKeyDown={(e) => {
+                        if (!linkSuggest || !linkSuggestions.length) return;
+                        if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+                          e.preventDefault();
+                          const step = e.key === 'ArrowDown' ? 1 : -1;
+                          setLinkSuggest({ ...linkSuggest, index: (linkSuggest.index + step + linkSuggestions.length) % linkSuggestions.length });
+                        } else if (e.key === 'Enter' || e.key === 'Tab') {
+                          e.preventDefault();
+                          acceptLinkSuggestion(linkSuggestions[Math.min(linkSuggest.index, linkSuggestions.length - 1)].title.trim());
+                        } else if (e.key === 'Escape') {
+                          setLinkSuggest(null);
+                        }
+                      }}
+                      onBlur={() => setLinkSuggest(null)}
+                    />
+                    {linkSuggestions.length > 0 && linkSuggest && (
+                      <div className="link-suggest" role="listbox">
+                        {linkSuggestions.map((n, i) => (
+                          <button
+                            key={n.id}
+                            type="button"
+                            role="option"
+                            aria-selected={i === linkSuggest.index}
+                            className={`link-suggest-item ${i === linkSuggest.index ? 'active' : ''}`}
+                            onMouseDown={e => e.preventDefault()}
+                            onClick={() => acceptLinkSuggestion(n.title.trim())}
+                          >
+                            <span className="truncate">{n.title}</span>
+                            <span className="link-suggest-folder truncate">{folderPath(folders, n.folder_id)}</span>
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+                {editorView !== 'write' && (
+                  <div ref={previewRef} className="note-markdown-preview">
+                    {activeNote.content?.trim() ? (
+                      <ReactMarkdown
+                        remarkPlugins={REMARK_PLUGINS}
+                        rehypePlugins={REHYPE_PLUGINS}
+                        components={{
+                          a: ({ href, children }) => {
+                            if (!href?.startsWith(NOTE_LINK_PREFIX)) return <a href={href}>{children}</a>;
+                            const title = decodeURIComponent(href.slice(NOTE_LINK_PREFIX.length));
+                            const target = noteByTitle(title);
+                            return target ? (
+                              <a href={href} className="note-link" onClick={(e) => { e.preventDefault(); openLinkedNote(target); }}>{children}</a>
+                            ) : (
+                              <span className="note-link missing" title={`No note is titled "${title}"`}>{children}</span>
+                            );
+                          }
+                        }}
+                      >
+                        {linkifyNoteLinks(activeNote.content)}
+                      </ReactMarkdown>
+                    ) : (
+                      <p className="note-markdown-empty">Nothing to preview yet.</p>
+                    )}
+                  </div>
+                )}
+                {showBacklinks && (
+                  <nav className="note-outline note-backlinks">
+                    <div className="note-outline-title">Backlinks</div>
+                    {!activeTitleKey ? (
+                      <p className="note-outline-empty">Give the note a title so other notes can link to it.</p>
+                    ) : backlinks.length === 0 ? (
+                      <p className="note-outline-empty">No notes link here yet. Link to this note with [[{activeNote.title.trim()}]].</p>
+                    ) : backlinks.map(({ note, link }) => (
+                      <button
+                        key={note.id}
+                        type="button"
+                        className="note-backlink"
+                        onClick={() => openCitation({ noteId: note.id, start: link.start, end: link.end })}
+                      >
+                        <span className="note-backlink-title truncate">{note.title || 'Untitled Note'}</span>
+                        <span className="note-backlink-context">{linkContext(note.content || '', link)}</span>
+                      </button>
+                    ))}
+                  </nav>
+                )}
+              </div>
             </div>
             {/* Editor Content End */}
           </>
@@ -1412,14 +4978,33 @@ function MainApp({ token, username, onLogout }: { token: string, username: strin
               <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
                 <Bot size={18} /> Teacher Mode
               </div>
-              <button className="icon-btn" onClick={() => setIsChatOpen(false)}><X size={18} /></button>
+              <div style={{ display: 'flex', alignItems: 'center', gap: '0.25rem' }}>
+                <button
+                  className="icon-btn"
+                  onClick={() => setOpenThreadList(openThreadList === 'chat' ? null : 'chat')}
+                  title="Conversation history"
+                >
+                  <History size={18} />
+                </button>
+                <button className="icon-btn" onClick={() => setIsChatOpen(false)}><X size={18} /></button>
+              </div>
             </div>
+            {openThreadList === 'chat' && (
+              <ThreadList
+                threads={chatThreads}
+                activeThreadId={chatThreadId}
+                onSelect={(thread) => selectThread('chat', thread)}
+                onCreate={() => startNewThread('chat')}
+                onRename={renameThread}
+                onDelete={deleteThread}
+              />
+            )}
             <div className="chat-messages">
               {chatMessages.length === 0 ? (
                 <div className="chat-msg system">Hi there! Ask me to summarize this note or create a new one.</div>
               ) : (
                 chatMessages.map((msg, idx) => (
-                  <div key={idx} className={`chat-msg ${msg.role}`}>
+                  <div key={idx} className={`chat-msg ${msg.role} ${msg.confidence === 'Low' ? 'low-confidence' : ''}`}>
                     {msg.role === 'model' ? (
                       <div style={{ position: 'relative' }}>
                         <button
@@ -1442,10 +5027,14 @@ function MainApp({ token, username, onLogout }: { token: string, username: strin
                           {speakingIdx === idx ? <Square size={14} fill="currentColor" /> : <Volume2 size={14} />}
                         </button>
                         <div className="prose prose-invert max-w-none text-sm" style={{ paddingRight: '28px' }}>
-                          <ReactMarkdown remarkPlugins={[remarkGfm]}>
-                            {msg.content}
-                          </ReactMarkdown>
+                          {msg.streaming && !msg.content ? 'Thinking...' : (
+                            <ReactMarkdown remarkPlugins={REMARK_PLUGINS} rehypePlugins={REHYPE_PLUGINS}>
+                              {msg.content}
+                            </ReactMarkdown>
+                          )}
                         </div>
+                        <CitationChips citations={msg.citations} onOpen={openCitation} />
+                        <EvidenceSummary message={msg} onOpen={openCitation} />
                       </div>
                     ) : (
                       msg.content
@@ -1453,35 +5042,54 @@ function MainApp({ token, username, onLogout }: { token: string, username: strin
                   </div>
                 ))
               )}
-              {isChatLoading && <div className="chat-msg model">Thinking...</div>}
             </div>
             <div className="chat-input-area" style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', padding: '1.5rem', borderTop: '1px solid rgba(255,255,255,0.05)' }}>
               {isListening && <span style={{ color: '#ef4444', marginBottom: '0.5rem', fontSize: '0.8rem', fontWeight: 'bold' }}>Listening...</span>}
-              <button
-                className="btn"
-                onClick={handleSTT}
-                disabled={isChatLoading}
-                style={{
-                  borderRadius: '50%',
-                  width: '56px',
-                  height: '56px',
-                  display: 'flex',
-                  alignItems: 'center',
-                  justifyContent: 'center',
-                  background: isListening ? '#ef4444' : 'var(--primary)',
-                  boxShadow: isListening ? '0 0 16px rgba(239, 68, 68, 0.4)' : '0 4px 12px rgba(34, 197, 94, 0.2)',
-                  color: 'var(--text-primary)',
-                  border: 'none',
-                  transition: 'all 0.3s ease',
-                  cursor: isChatLoading ? 'wait' : 'pointer'
-                }}
-                title={isListening ? "Tap to stop listening" : "Tap to start speaking"}
-              >
-                <Mic size={28} />
-              </button>
+              {isChatLoading ? (
+                <button
+                  className="btn"
+                  onClick={stopChatAnswer}
+                  style={{
+                    borderRadius: '50%',
+                    width: '56px',
+                    height: '56px',
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    background: 'var(--text-primary)',
+                    color: '#FFFFFF',
+                    border: 'none'
+                  }}
+                  title="Stop answering"
+                >
+                  <Square size={22} fill="currentColor" />
+                </button>
+              ) : (
+                <button
+                  className="btn"
+                  onClick={handleSTT}
+                  style={{
+                    borderRadius: '50%',
+                    width: '56px',
+                    height: '56px',
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    background: isListening ? '#ef4444' : 'var(--primary)',
+                    boxShadow: isListening ? '0 0 16px rgba(239, 68, 68, 0.4)' : '0 4px 12px rgba(34, 197, 94, 0.2)',
+                    color: 'var(--text-primary)',
+                    border: 'none',
+                    transition: 'all 0.3s ease',
+                    cursor: 'pointer'
+                  }}
+                  title={isListening ? "Tap to stop listening" : "Tap to start speaking"}
+                >
+                  <Mic size={28} />
+                </button>
+              )}
               <span style={{ color: 'var(--text-secondary)', marginTop: '0.5rem', fontSize: '0.75rem' }}>
                 {isChatLoading
-                  ? 'Thinking...'
+                  ? 'Answering... tap to stop'
                   : isListening
                     ? 'Listening... tap again when you finish'
                     : 'Tap to speak to your Teacher'}
@@ -1509,20 +5117,47 @@ function MainApp({ token, username, onLogout }: { token: string, username: strin
             <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
               <Bot size={18} /> Chat Bot
             </div>
-            <button className="icon-btn" onClick={() => setIsAssistantOpen(false)}>
-              <X size={18} />
-            </button>
+            <div style={{ display: 'flex', alignItems: 'center', gap: '0.25rem' }}>
+              <button
+                className="icon-btn"
+                onClick={() => setOpenThreadList(openThreadList === 'assistant' ? null : 'assistant')}
+                title="Conversation history"
+              >
+                <History size={18} />
+              </button>
+              <button className="icon-btn" onClick={() => setIsAssistantOpen(false)}>
+                <X size={18} />
+              </button>
+            </div>
           </div>
+          {openThreadList === 'assistant' && (
+            <ThreadList
+              threads={chatThreads}
+              activeThreadId={assistantThreadId}
+              onSelect={(thread) => selectThread('assistant', thread)}
+              onCreate={() => startNewThread('assistant')}
+              onRename={renameThread}
+              onDelete={deleteThread}
+            />
+          )}
           <div className="chat-messages">
             {assistantMessages.length === 0 ? (
               <div className="chat-msg system">
                 This AI is grounded in your uploaded notes. Ask anything about this subject!
               </div>
             ) : (
-              assistantMessages.map((msg, idx) => (
-                <div key={idx} className={`chat-msg ${msg.role}`}>
+              assistantMessages.map((msg, idx) => msg.streaming && !msg.content ? (
+                <div key={idx} className="chat-msg model">
+                  <div className="flex gap-1.5 items-center">
+                    <div className="w-1.5 h-1.5 rounded-full bg-charcoal/30 animate-bounce" style={{ animationDelay: '0ms' }} />
+                    <div className="w-1.5 h-1.5 rounded-full bg-charcoal/30 animate-bounce" style={{ animationDelay: '150ms' }} />
+                    <div className="w-1.5 h-1.5 rounded-full bg-charcoal/30 animate-bounce" style={{ animationDelay: '300ms' }} />
+                  </div>
+                </div>
+              ) : (
+                <div key={idx} className={`chat-msg ${msg.role} ${msg.confidence === 'Low' ? 'low-confidence' : ''}`}>
                   <ReactMarkdown
-                    remarkPlugins={[remarkGfm]}
+                    remarkPlugins={REMARK_PLUGINS} rehypePlugins={REHYPE_PLUGINS}
                     components={{
                       p: ({ node, ...props }) => <p className="mb-2 last:mb-0" {...props} />,
                       sup: ({ node, ...props }) => <sup className="text-charcoal/50 font-mono text-[10px] ml-0.5" {...props} />,
@@ -1530,24 +5165,22 @@ function MainApp({ token, username, onLogout }: { token: string, username: strin
                   >
                     {msg.content}
                   </ReactMarkdown>
-                  {msg.role === 'model' && (
+                  <CitationChips citations={msg.citations} onOpen={openCitation} />
+                  <EvidenceSummary message={msg} onOpen={openCitation} />
+                  {msg.role === 'model' && !msg.streaming && (msg.verification === 'verified' || msg.verification === 'partial' || msg.verification === 'uncited') && (
                     <div className="sourced-badge">
-                      <ShieldCheck size={12} className="text-charcoal/60" />
-                      100% Sourced from Notes
+                      {msg.verification === 'verified' ? (
+                        <><ShieldCheck size={12} className="text-charcoal/60" /> Every quote verified in your notes</>
+                      ) : msg.verification === 'partial' ? (
+                        <><AlertCircle size={12} className="text-charcoal/60" /> Some quotes could not be verified</>
+                      ) : (
+                        <><AlertCircle size={12} className="text-charcoal/60" /> This answer quotes none of your notes</>
+                      )}
                     </div>
                   )}
                 </div>
               ))
             )}
-            {isAssistantLoading && (
-              <div className="chat-msg model">
-                <div className="flex gap-1.5 items-center">
-                  <div className="w-1.5 h-1.5 rounded-full bg-charcoal/30 animate-bounce" style={{ animationDelay: '0ms' }} />
-                  <div className="w-1.5 h-1.5 rounded-full bg-charcoal/30 animate-bounce" style={{ animationDelay: '150ms' }} />
-                  <div className="w-1.5 h-1.5 rounded-full bg-charcoal/30 animate-bounce" style={{ animationDelay: '300ms' }} />
-                </div>
-              </div>
-            )}
           </div>
           <div className="chat-input-area">
             <form
@@ -1573,9 +5206,11 @@ function MainApp({ token, username, onLogout }: { token: string, username: strin
                 }}
               />
               <button
-                type="submit"
+                type={isAssistantLoading ? 'button' : 'submit'}
                 className="btn btn-primary"
-                disabled={isAssistantLoading || !assistantInput.trim()}
+                onClick={isAssistantLoading ? () => assistantAbortRef.current?.abort() : undefined}
+                disabled={!isAssistantLoading && !assistantInput.trim()}
+                title={isAssistantLoading ? 'Stop answering' : 'Send'}
                 style={{
                   flexShrink: 0,
                   width: '45px',
@@ -1587,7 +5222,7 @@ function MainApp({ token, username, onLogout }: { token: string, username: strin
                   padding: 0
                 }}
               >
-                <Send size={18} />
+                {isAssistantLoading ? <Square size={16} fill="currentColor" /> : <Send size={18} />}
               </button>
             </form>
           </div>
@@ -1595,29 +5230,126 @@ function MainApp({ token, username, onLogout }: { token: string, username: strin
       )}
 
       {/* New Folder Modal */}
-      {isFolderModalOpen && (
-        <div className="modal-overlay" onClick={() => setIsFolderModalOpen(false)}>
+      {explainConceptName && (
+        <LayeredExplanation
+          key={explainConceptName}
+          concept={explainConceptName}
+          data={explanation}
+          loading={isExplaining}
+          error={explainError}
+          onClose={() => setExplainConceptName(null)}
+          onOpen={(citation) => { setExplainConceptName(null); openCitation(citation); }}
+        />
+      )}
+
+      {noteConflict && (
+        <NoteConflictDialog
+          conflict={noteConflict}
+          onKeepMine={() => resolveNoteConflict('mine')}
+          onUseTheirs={() => resolveNoteConflict('theirs')}
+        />
+      )}
+
+      {noteHistory && activeNote && activeNote.id === noteHistory.noteId && (
+        <NoteHistoryDialog
+          note={activeNote}
+          revisions={noteHistory.revisions}
+          selected={noteHistory.selected}
+          loading={noteHistory.loading}
+          formatDate={formatDate}
+          onSelect={selectNoteRevision}
+          onRestore={restoreNoteRevision}
+          onClose={() => setNoteHistory(null)}
+        />
+      )}
+
+      {isSpeechSettingsOpen && (
+        <SpeechSettingsDialog
+          initial={speechSettings}
+          serverVoices={serverSpeech?.voices || []}
+          serverProvider={serverSpeech ? serverSpeech.provider || 'none configured' : null}
+          onTest={(settings) => { stopSpeaking(); queueTTS('This is how your study assistant will sound.', -1, undefined, settings); }}
+          onSave={(settings) => {
+            stopSpeaking();
+            setSpeechSettings(settings);
+            saveSpeechSettings(settings);
+            setIsSpeechSettingsOpen(false);
+          }}
+          onClose={() => setIsSpeechSettingsOpen(false)}
+        />
+      )}
+
+      {isQuizConfigOpen && (
+        <QuizConfigDialog
+          notes={notes}
+          initial={quizOptions}
+          onClose={() => setIsQuizConfigOpen(false)}
+          onGenerate={(options) => {
+            setQuizOptions(options);
+            setIsQuizConfigOpen(false);
+            setStudySubMode('quiz');
+            handleGenerateStudyMaterial(undefined, undefined, options);
+          }}
+        />
+      )}
+
+      {trash && (
+        <TrashDialog
+          trash={trash}
+          formatDate={formatDate}
+          onRestore={restoreTrashEntry}
+          onDelete={deleteForever}
+          onEmpty={() => deleteForever(null)}
+          onClose={() => setTrash(null)}
+        />
+      )}
+
+      {undoToast && (
+        <div className="undo-toast" role="status">
+          <span className="truncate">{undoToast.message}</span>
+          <button type="button" className="undo-toast-action" onClick={undoDeletion}>Undo</button>
+          <button type="button" className="icon-btn" onClick={() => setUndoToast(null)} aria-label="Dismiss">
+            <X size={14} />
+          </button>
+        </div>
+      )}
+
+      {batchDialog && (
+        <NoteBatchDialog
+          mode={batchDialog}
+          count={selectedNoteIds.size}
+          folders={folders}
+          initialFolderId={activeFolderId}
+          onConfirm={(folderId) => batchMoveOrCopy(batchDialog, folderId)}
+          onClose={() => setBatchDialog(null)}
+        />
+      )}
+
+      {folderDialog && (
+        <div className="modal-overlay" onClick={() => setFolderDialog(null)}>
           <div className="modal-content" onClick={e => e.stopPropagation()}>
-            <h3>Create Subject</h3>
-            <p style={{ color: 'var(--text-secondary)', marginBottom: '1rem', fontSize: '0.9rem' }}>
-              You are currently using {folders.length} out of {MAX_FOLDERS} subjects.
-            </p>
-            <form onSubmit={handleCreateFolder}>
+            <h3>{folderDialog.folder ? 'Rename Folder' : folderDialog.parentId ? 'Create Topic' : 'Create Subject'}</h3>
+            {folderDialog.parentId && (
+              <p style={{ color: 'var(--text-secondary)', marginBottom: '1rem', fontSize: '0.9rem' }}>
+                {folderDialog.folder ? 'In' : 'Inside'} {folderPath(folders, folderDialog.parentId)}
+              </p>
+            )}
+            <form onSubmit={handleSaveFolder}>
               <input
                 autoFocus
                 type="text"
                 className="modal-input"
-                placeholder="Subject Name (e.g. Physics)"
+                placeholder={folderDialog.parentId ? 'Topic Name (e.g. Unit 2: Kinetics)' : 'Subject Name (e.g. Physics)'}
                 value={newFolderName}
                 onChange={e => setNewFolderName(e.target.value)}
-                maxLength={30}
+                maxLength={60}
               />
               <div className="modal-actions">
-                <button type="button" className="btn btn-secondary" onClick={() => setIsFolderModalOpen(false)}>
+                <button type="button" className="btn btn-secondary" onClick={() => setFolderDialog(null)}>
                   Cancel
                 </button>
                 <button type="submit" className="btn btn-primary" disabled={!newFolderName.trim()}>
-                  Create
+                  {folderDialog.folder ? 'Rename' : 'Create'}
                 </button>
               </div>
             </form>
@@ -21,7 +21,7 @@ const PIPELINE_STEPS = [
   {
     icon: Search,
     title: "Retrieval",
-    desc: "When you ask a question, we instantly find the most relevant mathematical matches within your precise context.",
+    desc: "When you ask a question, we blend keyword matching with vector similarity to find the most relevant passages within your precise context.",
   },
   {
     icon: Target,
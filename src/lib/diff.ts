@@ -0,0 +1,58 @@
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Past this many line pairs the LCS table gets too big to build in the
+// browser; the changed middle is then shown as removed-then-added.
+const MAX_LCS_CELLS = 2_000_000;
+
+// Line diff from `before` to `after`. Common leading and trailing lines are
+// matched directly and only the changed middle goes through the LCS table.
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  let head = 0;
+  while (head < a.length && head < b.length && a[head] === b[head]) head++;
+  let tail = 0;
+  while (tail < a.length - head && tail < b.length - head && a[a.length - 1 - tail] === b[b.length - 1 - tail]) tail++;
+
+  const midA = a.slice(head, a.length - tail);
+  const midB = b.slice(head, b.length - tail);
+  const middle: DiffLine[] = [];
+
+  if (midA.length * midB.length > MAX_LCS_CELLS) {
+    midA.forEach(text => middle.push({ type: 'removed', text }));
+    midB.forEach(text => middle.push({ type: 'added', text }));
+  } else {
+    // lcs[i][j] = length of the longest common subsequence of midA[i:] and midB[j:]
+    const lcs = Array.from({ length: midA.length + 1 }, () => new Uint32Array(midB.length + 1));
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lcs[i][j] = midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < midA.length && j < midB.length) {
+      if (midA[i] === midB[j]) {
+        middle.push({ type: 'same', text: midA[i] });
+        i++;
+        j++;
+      } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+        middle.push({ type: 'removed', text: midA[i++] });
+      } else {
+        middle.push({ type: 'added', text: midB[j++] });
+      }
+    }
+    while (i < midA.length) middle.push({ type: 'removed', text: midA[i++] });
+    while (j < midB.length) middle.push({ type: 'added', text: midB[j++] });
+  }
+
+  return [
+    ...a.slice(0, head).map(text => ({ type: 'same' as const, text })),
+    ...middle,
+    ...a.slice(a.length - tail).map(text => ({ type: 'same' as const, text }))
+  ];
+}
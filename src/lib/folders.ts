@@ -0,0 +1,68 @@
+// Subjects are top-level folders and topics nest below them. The server sends
+// folders ordered by position, so siblings keep that order here.
+
+interface TreeFolder {
+  id: string;
+  parent_id?: string | null;
+}
+
+export interface FolderRow<T> {
+  folder: T;
+  depth: number;
+  hasChildren: boolean;
+}
+
+const childrenOf = <T extends TreeFolder>(folders: T[]) => {
+  const ids = new Set(folders.map(f => f.id));
+  const children = new Map<string | null, T[]>();
+  for (const folder of folders) {
+    // A folder whose parent is missing (e.g. a stale cache) shows at the top level
+    const parent = folder.parent_id && ids.has(folder.parent_id) ? folder.parent_id : null;
+    children.set(parent, [...(children.get(parent) || []), folder]);
+  }
+  return children;
+};
+
+// The tree flattened in display order, skipping the contents of collapsed folders
+export function folderRows<T extends TreeFolder>(folders: T[], collapsed: Set<string>): FolderRow<T>[] {
+  const children = childrenOf(folders);
+  const rows: FolderRow<T>[] = [];
+  const visit = (parent: string | null, depth: number) => {
+    for (const folder of children.get(parent) || []) {
+      const hasChildren = children.has(folder.id);
+      rows.push({ folder, depth, hasChildren });
+      if (hasChildren && !collapsed.has(folder.id)) visit(folder.id, depth + 1);
+    }
+  };
+  visit(null, 0);
+  return rows;
+}
+
+// The folder and every folder below it
+export function subtreeIds<T extends TreeFolder>(folders: T[], folderId: string): Set<string> {
+  const children = childrenOf(folders);
+  const ids = new Set<string>();
+  const visit = (id: string) => {
+    ids.add(id);
+    for (const child of children.get(id) || []) visit(child.id);
+  };
+  if (folders.some(f => f.id === folderId)) visit(folderId);
+  return ids;
+}
+
+// Siblings of a folder in order, i.e. the other children of its parent
+export function siblingsOf<T extends TreeFolder>(folders: T[], parentId: string | null): T[] {
+  return childrenOf(folders).get(parentId) || [];
+}
+
+// "Chemistry › Unit 2 › Lecture 4"
+export function folderPath<T extends TreeFolder & { name: string }>(folders: T[], folderId: string): string {
+  const byId = new Map(folders.map(f => [f.id, f]));
+  const names: string[] = [];
+  let folder = byId.get(folderId);
+  while (folder && names.length <= folders.length) {
+    names.unshift(folder.name);
+    folder = folder.parent_id ? byId.get(folder.parent_id) : undefined;
+  }
+  return names.join(' › ');
+}
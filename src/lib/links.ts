@@ -0,0 +1,62 @@
+// [[Note Title]] links between notes (see backend/links.js). A link names a
+// title, compared case- and spacing-insensitively, and is ignored inside
+// fenced code blocks.
+const LINK_PATTERN = /\[\[([^[\]\n]+?)\]\]/g;
+
+// Preview links to notes point here, followed by the encoded title
+export const NOTE_LINK_PREFIX = '#note/';
+
+export interface NoteLink {
+  title: string;
+  // Offsets of the whole [[...]] in the note text
+  start: number;
+  end: number;
+}
+
+export const linkKey = (title: string) => title.trim().replace(/\s+/g, ' ').toLowerCase();
+
+export function findLinks(text: string): NoteLink[] {
+  const links: NoteLink[] = [];
+  let inFence = false;
+  let offset = 0;
+  for (const line of text.split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+    } else if (!inFence) {
+      for (const match of line.matchAll(LINK_PATTERN)) {
+        if (linkKey(match[1])) links.push({ title: match[1].trim(), start: offset + match.index, end: offset + match.index + match[0].length });
+      }
+    }
+    offset += line.length + 1;
+  }
+  return links;
+}
+
+// Markdown for the preview: each link becomes an ordinary markdown link to
+// NOTE_LINK_PREFIX + title, which the preview renders as a note link.
+export function linkifyNoteLinks(text: string): string {
+  let result = '';
+  let last = 0;
+  for (const link of findLinks(text)) {
+    const href = NOTE_LINK_PREFIX + encodeURIComponent(link.title).replace(/\(/g, '%28').replace(/\)/g, '%29');
+    result += `${text.slice(last, link.start)}[${link.title}](${href})`;
+    last = link.end;
+  }
+  return result + text.slice(last);
+}
+
+// The unfinished link the caret is in ("see [[Cell w|"), for autocomplete
+export function linkQueryAt(text: string, caret: number): { start: number, query: string } | null {
+  const before = text.slice(0, caret);
+  const start = before.lastIndexOf('[[');
+  if (start === -1) return null;
+  const query = before.slice(start + 2);
+  return /[[\]\n]/.test(query) ? null : { start, query };
+}
+
+// The line a link sits on, trimmed, for showing where a note links
+export function linkContext(text: string, link: NoteLink): string {
+  const lineStart = text.lastIndexOf('\n', link.start - 1) + 1;
+  const lineEnd = text.indexOf('\n', link.end);
+  return text.slice(lineStart, lineEnd === -1 ? text.length : lineEnd).trim();
+}
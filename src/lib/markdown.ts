@@ -0,0 +1,34 @@
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+
+// Plugins for every rendered markdown surface: GFM tables and task lists, plus
+// $inline$ and $$display$$ LaTeX typeset with KaTeX.
+export const REMARK_PLUGINS = [remarkGfm, remarkMath];
+export const REHYPE_PLUGINS = [rehypeKatex];
+
+export interface MarkdownHeading {
+  level: number;
+  title: string;
+  // Offsets of the heading line in the note text
+  start: number;
+  end: number;
+}
+
+// ATX headings ("## Title") outside fenced code blocks, in document order.
+// Mirrors how the backend splits notes into sections for citations.
+export function parseHeadings(text: string): MarkdownHeading[] {
+  const headings: MarkdownHeading[] = [];
+  let inFence = false;
+  let offset = 0;
+  for (const line of text.split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+    } else if (!inFence) {
+      const match = /^(#{1,6})\s+(.+?)\s*#*\s*$/.exec(line);
+      if (match) headings.push({ level: match[1].length, title: match[2], start: offset, end: offset + line.length });
+    }
+    offset += line.length + 1;
+  }
+  return headings;
+}
@@ -0,0 +1,156 @@
+// Local copy of the user's subjects and notes in IndexedDB, plus a queue of
+// note changes made while the server was unreachable. The queue is replayed
+// in order once the connection returns.
+
+const DB_VERSION = 1;
+
+type CacheKey = 'folders' | 'notes';
+
+interface CachedNote {
+  id: string;
+  title: string;
+  content: string;
+}
+
+export type NoteMutation =
+  | { type: 'createNote', noteId: string, folderId: string, title: string, content: string }
+  // `version` is the server version the edits were based on, for conflict detection
+  | { type: 'saveNote', noteId: string, title: string, content: string, version?: number }
+  | { type: 'deleteNote', noteId: string };
+
+export type QueuedMutation = NoteMutation & { seq: number };
+
+// Notes created offline get a local id until the server assigns a real one
+export const LOCAL_ID_PREFIX = 'local-';
+export const isLocalId = (id: string) => id.startsWith(LOCAL_ID_PREFIX);
+export const newLocalId = () => `${LOCAL_ID_PREFIX}${crypto.randomUUID()}`;
+
+// fetch rejects with a TypeError when the request never reached the server
+export const isNetworkError = (err: unknown) => err instanceof TypeError;
+
+// One database per account, so a shared browser never replays one user's
+// changes under another's login
+let dbName = 'ask-my-notes';
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function setOfflineUser(username: string) {
+  const name = `ask-my-notes:${username}`;
+  if (name === dbName) return;
+  dbName = name;
+  dbPromise = null;
+}
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(dbName, DB_VERSION);
+      // 'cache' holds whole lists (subjects, notes) under one key each, so
+      // their server order survives
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore('cache');
+        db.createObjectStore('queue', { keyPath: 'seq', autoIncrement: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+const requestResult = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+export async function readCache<T>(key: CacheKey): Promise<T[]> {
+  const db = await openDb();
+  return (await requestResult(db.transaction('cache').objectStore('cache').get(key))) || [];
+}
+
+export async function writeCache<T>(key: CacheKey, items: T[]) {
+  const db = await openDb();
+  const tx = db.transaction('cache', 'readwrite');
+  tx.objectStore('cache').put(items, key);
+  await transactionDone(tx);
+}
+
+export async function queuedMutations(): Promise<QueuedMutation[]> {
+  const db = await openDb();
+  return requestResult(db.transaction('queue').objectStore('queue').getAll());
+}
+
+export async function countQueued() {
+  const db = await openDb();
+  return requestResult(db.transaction('queue').objectStore('queue').count());
+}
+
+// Adds a change to the queue, folding it into changes already queued for the
+// same note: repeated saves keep one entry (and the version they started
+// from), and deleting a note that never reached the server drops it entirely.
+export async function queueMutation(mutation: NoteMutation) {
+  const db = await openDb();
+  const tx = db.transaction('queue', 'readwrite');
+  const queue = tx.objectStore('queue');
+  const existing = (await requestResult(queue.getAll()) as QueuedMutation[]).filter(m => m.noteId === mutation.noteId);
+
+  if (mutation.type === 'saveNote') {
+    const pending = existing.find(m => m.type === 'createNote' || m.type === 'saveNote');
+    if (pending) queue.put({ ...pending, title: mutation.title, content: mutation.content });
+    else queue.add(mutation);
+  } else if (mutation.type === 'deleteNote') {
+    for (const m of existing) queue.delete(m.seq);
+    if (!existing.some(m => m.type === 'createNote')) queue.add(mutation);
+  } else {
+    queue.add(mutation);
+  }
+  await transactionDone(tx);
+}
+
+export async function dequeueMutation(seq: number) {
+  const db = await openDb();
+  const tx = db.transaction('queue', 'readwrite');
+  tx.objectStore('queue').delete(seq);
+  await transactionDone(tx);
+}
+
+// Points queued changes for a note created offline at its new server id
+export async function remapQueuedNoteId(localId: string, serverId: string) {
+  const db = await openDb();
+  const tx = db.transaction('queue', 'readwrite');
+  const queue = tx.objectStore('queue');
+  for (const m of await requestResult(queue.getAll()) as QueuedMutation[]) {
+    if (m.noteId === localId) queue.put({ ...m, noteId: serverId });
+  }
+  await transactionDone(tx);
+}
+
+// Applies queued changes on top of notes fetched from the server, so a fetch
+// that happens before the queue is replayed does not undo local edits.
+export function applyQueuedMutations<T extends CachedNote>(notes: T[], queue: QueuedMutation[], makeNote: (m: Extract<NoteMutation, { type: 'createNote' }>) => T): T[] {
+  let result = notes;
+  for (const m of queue) {
+    if (m.type === 'createNote') {
+      if (!result.some(n => n.id === m.noteId)) result = [makeNote(m), ...result];
+    } else if (m.type === 'saveNote') {
+      result = result.map(n => n.id === m.noteId ? { ...n, title: m.title, content: m.content } : n);
+    } else {
+      result = result.filter(n => n.id !== m.noteId);
+    }
+  }
+  return result;
+}
+
+export async function clearOfflineData() {
+  const db = await openDb();
+  const tx = db.transaction(['cache', 'queue'], 'readwrite');
+  tx.objectStore('cache').clear();
+  tx.objectStore('queue').clear();
+  await transactionDone(tx);
+}
@@ -0,0 +1,37 @@
+// Page markers written by the PDF importer (see backend/pages.js). Each page of
+// an imported document starts with a "<!-- page N -->" line.
+const PAGE_MARKER_PATTERN = /^\s*<!--\s*page\s+(\d+)\s*-->\s*$/;
+
+export interface NotePage {
+  page: number;
+  // Offsets of the page's text in the note, after its marker line
+  start: number;
+  end: number;
+}
+
+// Pages of a note in document order; empty for notes without markers.
+export function splitPages(text: string): NotePage[] {
+  const pages: NotePage[] = [];
+  let inFence = false;
+  let offset = 0;
+  for (const line of text.split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+    } else if (!inFence) {
+      const match = PAGE_MARKER_PATTERN.exec(line);
+      if (match) {
+        if (pages.length) pages[pages.length - 1].end = offset;
+        pages.push({ page: Number(match[1]), start: Math.min(offset + line.length + 1, text.length), end: text.length });
+      }
+    }
+    offset += line.length + 1;
+  }
+  return pages;
+}
+
+// The page a character offset falls on, or null before the first marker
+export const pageAtOffset = (pages: NotePage[], offset: number) =>
+  [...pages].reverse().find(p => p.start <= offset)?.page ?? null;
+
+// Text with any page markers taken out, for excerpts shown outside the editor
+export const stripPageMarkers = (text: string) => text.replace(/<!--\s*page\s+\d+\s*-->\s*/g, '');
@@ -0,0 +1,27 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+
+// pdf.js is only loaded when an original PDF is first opened, and parses in
+// its own worker.
+export async function loadPdf(data: ArrayBuffer): Promise<PDFDocumentProxy> {
+  const [pdfjs, { default: workerSrc }] = await Promise.all([
+    import('pdfjs-dist'),
+    import('pdfjs-dist/build/pdf.worker.min.mjs?url')
+  ]);
+  pdfjs.GlobalWorkerOptions.workerSrc = workerSrc;
+  return pdfjs.getDocument({ data }).promise;
+}
+
+// Draws one page (1-based) into the canvas, scaled to the given CSS width.
+export async function renderPdfPage(doc: PDFDocumentProxy, pageNumber: number, canvas: HTMLCanvasElement, width: number) {
+  const page = await doc.getPage(pageNumber);
+  const scale = width / page.getViewport({ scale: 1 }).width;
+  const ratio = window.devicePixelRatio || 1;
+  const viewport = page.getViewport({ scale: scale * ratio });
+  canvas.width = viewport.width;
+  canvas.height = viewport.height;
+  canvas.style.width = `${viewport.width / ratio}px`;
+  canvas.style.height = `${viewport.height / ratio}px`;
+  const context = canvas.getContext('2d');
+  if (!context) return;
+  await page.render({ canvasContext: context, viewport }).promise;
+}
@@ -0,0 +1,68 @@
+// Server search results (see backend/search.js). Matches in the title and
+// snippet are wrapped in these control characters rather than HTML, so the
+// text can be rendered without escaping concerns.
+const HIGHLIGHT_START = '\u0002';
+const HIGHLIGHT_END = '\u0003';
+const FRAGMENT_DELIMITER = ' … ';
+
+// Filters the server accepts for `type`: typed notes, or the importer an
+// upload went through (see backend/importers.js)
+export const SEARCH_FILE_TYPES = [
+  { value: 'note', label: 'Typed notes' },
+  { value: 'pdf', label: 'PDF' },
+  { value: 'docx', label: 'Word' },
+  { value: 'pptx', label: 'PowerPoint' },
+  { value: 'markdown', label: 'Markdown' },
+  { value: 'html', label: 'HTML' },
+  { value: 'text', label: 'Plain text' },
+  { value: 'image', label: 'Images (OCR)' }
+];
+
+// scope is 'folder' (the open subject or topic), 'all', or a subject's id;
+// from/to are inclusive YYYY-MM-DD dates, empty for no bound
+export interface SearchFilters {
+  scope: string;
+  type: string;
+  from: string;
+  to: string;
+}
+
+export interface SearchHit {
+  id: string;
+  folder_id: string;
+  updated_at: string;
+  source_type: string | null;
+  rank: number;
+  title: string;
+  snippet: string;
+}
+
+// "a \u0002cell\u0003 wall" -> [{ text: 'a ', match: false }, { text: 'cell', match: true }, ...]
+export function highlightParts(text: string): { text: string, match: boolean }[] {
+  const parts: { text: string, match: boolean }[] = [];
+  text.split(HIGHLIGHT_START).forEach((piece, i) => {
+    const end = i === 0 ? -1 : piece.indexOf(HIGHLIGHT_END);
+    if (end > 0) parts.push({ text: piece.slice(0, end), match: true });
+    const rest = end === -1 ? piece : piece.slice(end + 1);
+    if (rest) parts.push({ text: rest, match: false });
+  });
+  return parts;
+}
+
+// Where the snippet's first match sits in the note, so opening a result can
+// select it. The snippet's first fragment is looked up verbatim; if the
+// headline reflowed it, the first occurrence of the matched word is used.
+export function locateMatch(content: string, snippet: string): { start: number, end: number } | null {
+  const [fragment] = snippet.split(FRAGMENT_DELIMITER);
+  const matchStart = fragment.indexOf(HIGHLIGHT_START);
+  const matchEnd = fragment.indexOf(HIGHLIGHT_END, matchStart);
+  if (matchStart === -1 || matchEnd === -1) return null;
+
+  const plain = fragment.split(HIGHLIGHT_START).join('').split(HIGHLIGHT_END).join('');
+  const at = content.indexOf(plain);
+  if (at !== -1) return { start: at + matchStart, end: at + matchEnd - 1 };
+
+  const word = fragment.slice(matchStart + 1, matchEnd).toLowerCase();
+  const index = content.toLowerCase().indexOf(word);
+  return index === -1 ? null : { start: index, end: index + word.length };
+}
@@ -0,0 +1,168 @@
+// Speech engines: the browser's Web Speech API, or recording with MediaRecorder
+// and sending the audio to the server (/api/speech-to-text, /api/text-to-speech).
+// 'auto' uses the browser where it has the API and the server elsewhere.
+export type SpeechEngine = 'auto' | 'browser' | 'server';
+
+export interface SpeechSettings {
+  engine: SpeechEngine;
+  // Browser voice name or server voice id; empty for the default voice
+  voice: string;
+}
+
+export const DEFAULT_SPEECH_SETTINGS: SpeechSettings = { engine: 'auto', voice: '' };
+
+const SETTINGS_KEY = 'app-speech-settings';
+
+export function loadSpeechSettings(): SpeechSettings {
+  try {
+    return { ...DEFAULT_SPEECH_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}') };
+  } catch {
+    return DEFAULT_SPEECH_SETTINGS;
+  }
+}
+
+export function saveSpeechSettings(settings: SpeechSettings) {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+export const hasBrowserRecognition = () =>
+  'SpeechRecognition' in window || 'webkitSpeechRecognition' in window;
+
+export const hasBrowserSynthesis = () => 'speechSynthesis' in window;
+
+export function resolveEngine(engine: SpeechEngine, kind: 'stt' | 'tts'): 'browser' | 'server' {
+  if (engine !== 'auto') return engine;
+  const available = kind === 'stt' ? hasBrowserRecognition() : hasBrowserSynthesis();
+  return available ? 'browser' : 'server';
+}
+
+export interface Recording {
+  stop: () => void;
+  audio: Promise<Blob>;
+}
+
+const SILENCE_LEVEL = 0.02;
+
+// Records from the microphone until stop() is called or, with silenceMs, until
+// the speaker has been quiet that long after saying something.
+export async function startRecording({ silenceMs }: { silenceMs?: number } = {}): Promise<Recording> {
+  if (!navigator.mediaDevices?.getUserMedia || typeof MediaRecorder === 'undefined') {
+    throw new Error('Audio recording is not supported in this browser.');
+  }
+
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  const recorder = new MediaRecorder(stream);
+  const parts: Blob[] = [];
+  let audioContext: AudioContext | null = null;
+  let frame = 0;
+
+  const stop = () => {
+    if (recorder.state !== 'inactive') recorder.stop();
+  };
+
+  const audio = new Promise<Blob>((resolve, reject) => {
+    recorder.ondataavailable = (e) => { if (e.data.size) parts.push(e.data); };
+    recorder.onerror = () => reject(new Error('Recording failed'));
+    recorder.onstop = () => {
+      cancelAnimationFrame(frame);
+      audioContext?.close();
+      stream.getTracks().forEach(track => track.stop());
+      resolve(new Blob(parts, { type: recorder.mimeType || 'audio/webm' }));
+    };
+  });
+
+  if (silenceMs) {
+    audioContext = new AudioContext();
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = 1024;
+    audioContext.createMediaStreamSource(stream).connect(analyser);
+    const samples = new Float32Array(analyser.fftSize);
+    let heardSpeech = false;
+    let quietSince = performance.now();
+
+    const watch = () => {
+      analyser.getFloatTimeDomainData(samples);
+      let sum = 0;
+      for (const v of samples) sum += v * v;
+      const level = Math.sqrt(sum / samples.length);
+      const now = performance.now();
+
+      if (level > SILENCE_LEVEL) {
+        heardSpeech = true;
+        quietSince = now;
+      } else if (heardSpeech && now - quietSince > silenceMs) {
+        stop();
+        return;
+      }
+      frame = requestAnimationFrame(watch);
+    };
+    frame = requestAnimationFrame(watch);
+  }
+
+  recorder.start();
+  return { stop, audio };
+}
+
+export async function transcribeAudio(audio: Blob, { apiUrl, token }: { apiUrl: string, token: string }) {
+  const form = new FormData();
+  form.append('audio', audio, 'speech.webm');
+  const res = await fetch(`${apiUrl}/speech-to-text`, {
+    method: 'POST',
+    headers: { 'Authorization': `Bearer ${token}` },
+    body: form
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error || 'Failed to transcribe audio');
+  return (data.text as string) || '';
+}
+
+// Plays server-synthesised speech one clip at a time, in the order requested.
+// cancel() stops the current clip and drops everything still queued.
+export function createServerSpeaker({ apiUrl, getToken }: { apiUrl: string, getToken: () => string }) {
+  let chain: Promise<void> = Promise.resolve();
+  let generation = 0;
+  let current: HTMLAudioElement | null = null;
+
+  const fetchClip = async (text: string, voice: string) => {
+    const res = await fetch(`${apiUrl}/text-to-speech`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${getToken()}` },
+      body: JSON.stringify({ text, voice: voice || undefined })
+    });
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to generate speech');
+    }
+    return res.blob();
+  };
+
+  const play = (clip: Blob) => new Promise<void>((resolve, reject) => {
+    const url = URL.createObjectURL(clip);
+    const element = new Audio(url);
+    current = element;
+    const done = () => { URL.revokeObjectURL(url); current = null; };
+    element.onended = () => { done(); resolve(); };
+    element.onerror = () => { done(); reject(new Error('Audio playback failed')); };
+    element.onpause = () => { if (!element.ended) { done(); reject(new Error('cancelled')); } };
+    element.play().catch(err => { done(); reject(err); });
+  });
+
+  // Resolves once this clip has finished playing; rejects if it was cancelled or failed.
+  const speak = (text: string, voice: string) => {
+    const mine = generation;
+    const clip = fetchClip(text, voice);
+    const turn = chain.then(async () => {
+      if (mine !== generation) throw new Error('cancelled');
+      await play(await clip);
+    });
+    chain = turn.catch(() => undefined);
+    return turn;
+  };
+
+  const cancel = () => {
+    generation++;
+    current?.pause();
+  };
+
+  return { speak, cancel };
+}
@@ -0,0 +1,34 @@
+// File types the server's importers accept (see backend/importers.js)
+export const UPLOAD_EXTENSIONS = [
+  '.pdf', '.txt', '.md', '.markdown', '.html', '.htm', '.docx', '.pptx',
+  '.png', '.jpg', '.jpeg', '.webp', '.bmp', '.gif'
+];
+
+export const isSupportedUpload = (fileName: string) => {
+  const dot = fileName.lastIndexOf('.');
+  return dot !== -1 && UPLOAD_EXTENSIONS.includes(fileName.slice(dot).toLowerCase());
+};
+
+// fetch cannot report upload progress, so uploads go through XMLHttpRequest.
+// onProgress gets 0-100 for the bytes sent; the server still has to extract
+// the text after that.
+export function uploadWithProgress(
+  url: string,
+  { token, body, onProgress }: { token: string, body: FormData, onProgress: (percent: number) => void }
+) {
+  return new Promise<{ ok: boolean, data: { error?: string } & Record<string, unknown> }>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('POST', url);
+    xhr.setRequestHeader('Authorization', `Bearer ${token}`);
+    xhr.upload.onprogress = (e) => {
+      if (e.lengthComputable) onProgress(Math.round((e.loaded / e.total) * 100));
+    };
+    xhr.onload = () => {
+      let data = {};
+      try { data = JSON.parse(xhr.responseText); } catch { /* non-JSON error page */ }
+      resolve({ ok: xhr.status >= 200 && xhr.status < 300, data });
+    };
+    xhr.onerror = () => reject(new TypeError('Network error'));
+    xhr.send(body);
+  });
+}